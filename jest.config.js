@@ -2,7 +2,7 @@ module.exports = {
     preset: 'ts-jest',
     testEnvironment: 'node',
     testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
-    collectCoverage: true,
+    setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
     coverageDirectory: 'coverage',
     collectCoverageFrom: [
       'src/**/*.ts',
@@ -0,0 +1,14 @@
+// Each test file gets its own data directory, so stores never touch ./data
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zoom-clickup-test-'));
+process.env.DATA_DIR = dataDir;
+
+// Loaded after the environment is set, so the config picks it up
+require('./src/config/logger').default.silent = true;
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
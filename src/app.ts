@@ -5,8 +5,27 @@ import axios from 'axios';
 import config from './config/env';
 import logger from './config/logger';
 import { errorHandler } from './middleware/errorHandler';
+import { requireScope } from './middleware/apiKeyMiddleware';
 import testRoutes from './routes/testRoutes';
-import zoomWebSocketService from './services/zoomWebSocketService';
+import audioRoutes from './routes/audioRoutes';
+import extractRoutes from './routes/extractRoutes';
+import jobRoutes from './routes/jobRoutes';
+import meetingRoutes from './routes/meetingRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import deadLetterRoutes from './routes/deadLetterRoutes';
+import replayRoutes from './routes/replayRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import zoomConnectionPool from './services/zoomConnectionPool';
+import zoomEventIngestion from './services/zoomEventIngestion';
+import recordingJobQueue from './services/jobQueueService';
+import { startReviewExpiry, stopReviewExpiry } from './services/reviewService';
+import {
+  handleMeetingEnded,
+  handleRecordingCompleted,
+  handleRecordingRemoved,
+  handleTranscriptCompleted,
+} from './controllers/zoomEventController';
+import { ApiError, RawBodyRequest } from './types';
 
 // Create Express application
 const app = express();
@@ -23,7 +42,15 @@ app.use(function(req, res, next) {
 });
 
 // Configure middleware
-app.use(bodyParser.json({ limit: '10mb' }));
+// Keep the raw bytes of JSON bodies; webhook signatures are computed over them
+app.use(
+  bodyParser.json({
+    limit: '10mb',
+    verify: (req, res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
 app.use(bodyParser.urlencoded({ extended: true, limit: '10mb' }));
 
 // CORS middleware
@@ -33,6 +60,12 @@ app.use(cors());
 const forwardEventToN8n = async (event: any): Promise<void> => {
   const webhookUrl = process.env.N8N_WEBHOOK_URL;
   
+  // Replayed events were already forwarded when they first arrived
+  if (event.replay) {
+    logger.debug('Not forwarding replayed event to n8n', { replayId: event.replay.replayId });
+    return;
+  }
+
   if (webhookUrl) {
     try {
       logger.info('Forwarding event to n8n webhook', { eventType: event.event_type || event.event });
@@ -49,17 +82,22 @@ const forwardEventToN8n = async (event: any): Promise<void> => {
   }
 };
 
-// Register WebSocket event handler for forwarding events
-zoomWebSocketService.onMessage(async (event) => {
-  await forwardEventToN8n(event);
+// Subscribe consumers to the Zoom events they need, from whichever transports are enabled
+zoomEventIngestion.on('recording.completed', handleRecordingCompleted, { name: 'recording-jobs' });
+zoomEventIngestion.on('recording.transcript_completed', handleTranscriptCompleted, {
+  name: 'zoom-transcripts',
 });
+zoomEventIngestion.on('recording.deleted', handleRecordingRemoved, { name: 'recording-deleted' });
+zoomEventIngestion.on('recording.trashed', handleRecordingRemoved, { name: 'recording-trashed' });
+zoomEventIngestion.on('meeting.ended', handleMeetingEnded, { name: 'meeting-metadata' });
+zoomEventIngestion.on('*', forwardEventToN8n, { name: 'n8n-forwarding', concurrency: 4 });
 
 // Basic route
 app.get('/', function(req, res) {
   res.json({
     message: 'Zoom-ClickUp Integration API',
     status: 'Running',
-    wsConnected: zoomWebSocketService.isConnected(),
+    wsConnected: zoomConnectionPool.isConnected(),
     n8nWebhook: process.env.N8N_WEBHOOK_URL ? 'Configured' : 'Not configured',
     documentation: 'Visit /docs for API documentation'
   });
@@ -71,44 +109,84 @@ app.get('/docs', function(req, res) {
     message: 'API Documentation',
     endpoints: {
       '/': 'Status check endpoint',
-      '/api/test-audio': 'Test endpoint for audio processing (POST)',
-      '/api/ws-status': 'Check WebSocket connection status (GET)',
-      '/api/reconnect': 'Force WebSocket reconnection (POST)',
-      '/api/webhook-test': 'Test n8n webhook forwarding (POST)'
+      '/api/process-audio':
+        'Process an uploaded audio/video file (multipart field "file"); fields: topic, meetingId, language, transcriptionProvider, skipClickUp, dryRun, requireReview, async (POST)',
+      '/api/extract':
+        'Extract items from a text, WebVTT or SRT transcript; apply=true updates ClickUp, with dryRun, requireReview (POST)',
+      '/webhook/zoom': 'Zoom webhook endpoint, when ZOOM_TRANSPORTS includes webhook (POST)',
+      '/api/ws-status':
+        'State and reconnect counters of each Zoom subscription connection, event ingestion and handler metrics (GET)',
+      '/api/reconnect':
+        'Force WebSocket reconnection; ?subscription=name for a single connection (POST)',
+      '/api/webhook-test': 'Test n8n webhook forwarding (POST)',
+      '/api/jobs': 'List recording jobs; filter by meetingId, status, from, to (GET)',
+      '/api/jobs/:id': 'Recording job details and pipeline report (GET)',
+      '/api/meetings': 'Meetings recorded from meeting.ended events; filter by meetingId (GET)',
+      '/api/meetings/:meetingId/reprocess':
+        "Reprocess a meeting's cloud recordings; body: skipClickUp, dryRun, requireReview, transcriptionProvider, reuseTranscript, subscription (POST)",
+      '/api/reviews': 'Extracted items awaiting approval; filter by status, jobId (GET)',
+      '/api/reviews/:id': 'Edit a pending item: character, task, context (PATCH)',
+      '/api/reviews/:id/approve': 'Approve an item and apply it to ClickUp (POST)',
+      '/api/reviews/:id/reject': 'Reject an item (POST)',
+      '/api/dead-letters':
+        'Recordings that failed for good, with error chain and original event; filter by status, meetingId (GET)',
+      '/api/dead-letters/:id': 'Dead letter details (GET)',
+      '/api/dead-letters/:id/retry':
+        'Requeue a failed recording, resuming at the failed stage (POST)',
+      '/api/replay':
+        'Replay archived Zoom events through the event handlers; body: eventTypes, from, to, limit, timing (original, fast), speed, dryRun (default true), skipClickUp, events (POST); list replays (GET)',
+      '/api/replay/:id': 'Replay progress (GET)',
+      '/api/replay/:id/cancel': 'Stop a running replay (POST)',
     },
-    connectionType: 'This application uses WebSockets to connect to Zoom for real-time events'
+    authentication:
+      "Every /api route needs an API key (Authorization: Bearer <key> or X-API-Key) with the route's scope: read-status, operate-connection, run-pipeline, and write-clickup for calls that write to ClickUp. Manage keys with npm run api-keys",
+    connectionType: `Zoom events are received over: ${config.ingestion.transports.join(', ')}`,
   });
 });
 
 // Mount route handlers
 app.use('/api', testRoutes);
+app.use('/api', audioRoutes);
+app.use('/api/extract', extractRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/meetings', meetingRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/dead-letters', deadLetterRoutes);
+app.use('/api/replay', replayRoutes);
+
+// Zoom webhooks are only accepted when the webhook transport is enabled
+if (zoomEventIngestion.isEnabled('webhook')) {
+  app.use('/webhook', webhookRoutes);
+}
 
 // Add WebSocket status check endpoint
-app.get('/api/ws-status', (req, res) => {
-  const isConnected = zoomWebSocketService.isConnected();
+app.get('/api/ws-status', requireScope('read-status'), (req, res) => {
+  const isConnected = zoomConnectionPool.isConnected();
   res.json({
     connected: isConnected,
-    message: isConnected ? 'WebSocket connected to Zoom' : 'WebSocket not connected'
+    message: isConnected ? 'WebSocket connected to Zoom' : 'WebSocket not connected',
+    connections: zoomConnectionPool.getStatus(),
+    ingestion: zoomEventIngestion.getStatus(),
+    handlers: zoomEventIngestion.getMetrics(),
   });
 });
 
 // Add endpoint to force reconnection
-app.post('/api/reconnect', async (req, res) => {
+app.post('/api/reconnect', requireScope('operate-connection'), async (req, res) => {
+  // Reconnect one subscription, or all of them when none is given
+  const subscription = req.query.subscription as string | undefined;
+
   try {
-    // Close existing connection
-    zoomWebSocketService.close();
-    
-    // Initialize new connection
-    await zoomWebSocketService.initialize();
+    await zoomConnectionPool.reconnect(subscription);
     
     res.json({
       status: 'success',
       message: 'WebSocket reconnection initiated',
-      connected: zoomWebSocketService.isConnected()
+      connected: zoomConnectionPool.isConnected(subscription),
     });
   } catch (error) {
     logger.error('Error reconnecting WebSocket', { error });
-    res.status(500).json({
+    res.status((error as ApiError).status || 500).json({
       status: 'error',
       message: 'Failed to reconnect WebSocket',
       error: (error as Error).message
@@ -117,7 +195,7 @@ app.post('/api/reconnect', async (req, res) => {
 });
 
 // Add endpoint to test n8n webhook forwarding
-app.post('/api/webhook-test', async (req, res) => {
+app.post('/api/webhook-test', requireScope('operate-connection'), async (req, res) => {
   try {
     // Forward a test event to n8n
     const testEvent = {
@@ -158,6 +236,10 @@ const server = app.listen(PORT, async function() {
   logger.info(`Environment: ${config.nodeEnv}`);
   logger.info(`API Base URL: http://localhost:${PORT}`);
   
+  // Resume unfinished recording jobs and start processing new ones
+  recordingJobQueue.start();
+  startReviewExpiry();
+
   // Log webhook configuration
   if (process.env.N8N_WEBHOOK_URL) {
     logger.info(`n8n Webhook URL configured: ${process.env.N8N_WEBHOOK_URL}`);
@@ -165,13 +247,16 @@ const server = app.listen(PORT, async function() {
     logger.warn('N8N_WEBHOOK_URL not configured, events will not be forwarded');
   }
   
-  // Validate required environment variables
-  const requiredEnvVars = [
-    'ZOOM_ACCOUNT_ID',
-    'ZOOM_CLIENT_ID',
-    'ZOOM_CLIENT_SECRET',
-    'ZOOM_SUBSCRIPTION_ID'
-  ];
+  logger.info(`Zoom event transports: ${config.ingestion.transports.join(', ')}`);
+  if (!zoomEventIngestion.isEnabled('websocket')) {
+    logger.info('WebSocket transport disabled, not connecting to Zoom');
+    return;
+  }
+
+  // Validate required environment variables; a ZOOM_SUBSCRIPTIONS list is validated when loaded
+  const requiredEnvVars = process.env.ZOOM_SUBSCRIPTIONS
+    ? []
+    : ['ZOOM_ACCOUNT_ID', 'ZOOM_CLIENT_ID', 'ZOOM_CLIENT_SECRET', 'ZOOM_SUBSCRIPTION_ID'];
   
   const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
   
@@ -181,8 +266,8 @@ const server = app.listen(PORT, async function() {
   } else {
     // Initialize WebSocket connection
     try {
-      logger.info('Initializing Zoom WebSocket connection...');
-      await zoomWebSocketService.initialize();
+      logger.info('Initializing Zoom WebSocket connections...');
+      await zoomConnectionPool.initialize();
     } catch (error) {
       logger.error('Failed to initialize WebSocket connection', { error });
     }
@@ -192,7 +277,9 @@ const server = app.listen(PORT, async function() {
 // Handle shutdown gracefully
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
-  zoomWebSocketService.close();
+  zoomConnectionPool.close();
+  recordingJobQueue.stop();
+  stopReviewExpiry();
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -201,7 +288,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
-  zoomWebSocketService.close();
+  zoomConnectionPool.close();
+  recordingJobQueue.stop();
+  stopReviewExpiry();
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -1,26 +1,212 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
+/**
+ * Zoom event subscriptions to consume. ZOOM_SUBSCRIPTIONS holds a JSON list of
+ * { name, subscriptionId, accountId, clientId, clientSecret }; without it the
+ * single subscription from the ZOOM_* variables is used.
+ */
+const parseZoomSubscriptions = () => {
+  if (!process.env.ZOOM_SUBSCRIPTIONS) {
+    return [
+      {
+        name: 'default',
+        subscriptionId: process.env.ZOOM_SUBSCRIPTION_ID || '',
+        accountId: process.env.ZOOM_ACCOUNT_ID || '',
+        clientId: process.env.ZOOM_CLIENT_ID || '',
+        clientSecret: process.env.ZOOM_CLIENT_SECRET || '',
+      },
+    ];
+  }
+
+  const subscriptions = JSON.parse(process.env.ZOOM_SUBSCRIPTIONS);
+  if (!Array.isArray(subscriptions) || subscriptions.length === 0) {
+    throw new Error('ZOOM_SUBSCRIPTIONS must be a non-empty JSON array');
+  }
+
+  return subscriptions.map((subscription: Record<string, string>, index: number) => {
+    const missing = ['subscriptionId', 'accountId', 'clientId', 'clientSecret'].filter(
+      (field) => !subscription[field]
+    );
+    if (missing.length > 0) {
+      throw new Error(`ZOOM_SUBSCRIPTIONS[${index}] is missing: ${missing.join(', ')}`);
+    }
+
+    return {
+      name: subscription.name || subscription.subscriptionId,
+      subscriptionId: subscription.subscriptionId,
+      accountId: subscription.accountId,
+      clientId: subscription.clientId,
+      clientSecret: subscription.clientSecret,
+    };
+  });
+};
+
+/**
+ * Webhook secrets from a JSON list of { name, token, notAfter } in `listVar`, so
+ * old and new tokens are both accepted while they are rotated. Without the list
+ * the single token in `legacyVar` is used.
+ */
+const parseWebhookSecrets = (
+  listVar: string,
+  legacyVar: string
+): { name: string; token: string; notAfter?: string }[] => {
+  if (!process.env[listVar]) {
+    return process.env[legacyVar]
+      ? [{ name: 'default', token: process.env[legacyVar] as string }]
+      : [];
+  }
+
+  const secrets = JSON.parse(process.env[listVar] as string);
+  if (!Array.isArray(secrets) || secrets.length === 0) {
+    throw new Error(`${listVar} must be a non-empty JSON array`);
+  }
+
+  return secrets.map((secret: Record<string, string>, index: number) => {
+    if (!secret.token) {
+      throw new Error(`${listVar}[${index}] is missing: token`);
+    }
+    if (secret.notAfter && isNaN(Date.parse(secret.notAfter))) {
+      throw new Error(`${listVar}[${index}] has an invalid notAfter date: ${secret.notAfter}`);
+    }
+
+    return {
+      name: secret.name || `${listVar}[${index}]`,
+      token: secret.token,
+      ...(secret.notAfter && { notAfter: new Date(secret.notAfter).toISOString() }),
+    };
+  });
+};
+
+/**
+ * Transports Zoom events are accepted on. ZOOM_TRANSPORTS holds a comma-separated
+ * list of 'websocket' and 'webhook'; the WebSocket alone when unset.
+ */
+const parseZoomTransports = (): ('websocket' | 'webhook')[] => {
+  const transports = (process.env.ZOOM_TRANSPORTS || 'websocket')
+    .split(',')
+    .map((transport) => transport.trim())
+    .filter(Boolean);
+
+  const unknown = transports.filter(
+    (transport) => transport !== 'websocket' && transport !== 'webhook'
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown ZOOM_TRANSPORTS: ${unknown.join(', ')}. Use websocket, webhook or both`
+    );
+  }
+  return transports as ('websocket' | 'webhook')[];
+};
+
+// Keys whose values are never logged, in log metadata and in logged JSON or query strings
+const DEFAULT_REDACT_KEYS = [
+  'token',
+  'plainToken',
+  'encryptedToken',
+  'access_token',
+  'accessToken',
+  'refresh_token',
+  'download_token',
+  'downloadToken',
+  'signature',
+  'x-zm-signature',
+  'authorization',
+  'x-api-key',
+  'password',
+  'clientSecret',
+  'client_secret',
+  'secretToken',
+  'verificationToken',
+];
+
+// Values redacted wherever they appear: email addresses, bearer tokens and API keys
+const DEFAULT_REDACT_PATTERNS = [
+  '[\\w.+-]+@[\\w-]+(\\.[\\w-]+)+',
+  'Bearer\\s+[\\w.~+/=-]+',
+  'zmk_[\\w-]+',
+];
+
+/**
+ * Log privacy level for transcript text: 'full' logs snippets as they are, 'truncate'
+ * shortens them and 'hash' only logs a hash and the length. LOG_PRIVACY_LEVEL, or
+ * 'hash' in production and 'truncate' elsewhere.
+ */
+const parseLogPrivacyLevel = (): 'full' | 'truncate' | 'hash' => {
+  const level =
+    process.env.LOG_PRIVACY_LEVEL ||
+    ((process.env.NODE_ENV || 'development') === 'production' ? 'hash' : 'truncate');
+  if (level !== 'full' && level !== 'truncate' && level !== 'hash') {
+    throw new Error(`Unknown LOG_PRIVACY_LEVEL: ${level}. Use full, truncate or hash`);
+  }
+  return level;
+};
+
+/**
+ * Extra regular expressions to redact from log lines, as a JSON list of pattern strings
+ */
+const parseRedactPatterns = (): string[] => {
+  if (!process.env.LOG_REDACT_PATTERNS) {
+    return DEFAULT_REDACT_PATTERNS;
+  }
+
+  const patterns = JSON.parse(process.env.LOG_REDACT_PATTERNS);
+  if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string')) {
+    throw new Error('LOG_REDACT_PATTERNS must be a JSON array of strings');
+  }
+  return [...DEFAULT_REDACT_PATTERNS, ...patterns];
+};
+
 export default {
   port: process.env.PORT || 3000,
   nodeEnv: process.env.NODE_ENV || 'development',
   
   zoom: {
-    // Webhook related tokens (legacy)
-    verificationToken: process.env.ZOOM_VERIFICATION_TOKEN || '',
-    secretToken: process.env.ZOOM_SECRET_TOKEN || '',
+    // Webhook tokens; ZOOM_VERIFICATION_TOKENS and ZOOM_SECRET_TOKENS list several during a rotation
+    verificationTokens: parseWebhookSecrets('ZOOM_VERIFICATION_TOKENS', 'ZOOM_VERIFICATION_TOKEN'),
+    secretTokens: parseWebhookSecrets('ZOOM_SECRET_TOKENS', 'ZOOM_SECRET_TOKEN'),
+    // Webhooks signed longer ago than this are rejected, and signatures are remembered this long
+    webhookMaxSkewSeconds: parseInt(process.env.ZOOM_WEBHOOK_MAX_SKEW_SECONDS || '300', 10),
     
     // WebSocket connection details
     accountId: process.env.ZOOM_ACCOUNT_ID || '',
     clientId: process.env.ZOOM_CLIENT_ID || '',
     clientSecret: process.env.ZOOM_CLIENT_SECRET || '',
     subscriptionId: process.env.ZOOM_SUBSCRIPTION_ID || '',
+    // Every subscription gets its own connection; the first one's credentials are the default
+    subscriptions: parseZoomSubscriptions(),
     wsUrl: process.env.ZOOM_WS_URL || 'wss://ws.zoom.us/ws',
+    apiUrl: process.env.ZOOM_API_URL || 'https://api.zoom.us/v2',
     
+    // Reconnect this long before the access token in the WebSocket URL expires
+    tokenRefreshMarginSeconds: parseInt(process.env.ZOOM_TOKEN_REFRESH_MARGIN_SECONDS || '300', 10),
+
+    // Reconnection backoff; after a burst of failed attempts, wait out a longer cool-down
+    reconnect: {
+      baseDelayMs: parseInt(process.env.ZOOM_RECONNECT_BASE_DELAY_MS || '5000', 10),
+      maxDelayMs: parseInt(process.env.ZOOM_RECONNECT_MAX_DELAY_MS || '60000', 10),
+      burstAttempts: parseInt(process.env.ZOOM_RECONNECT_BURST_ATTEMPTS || '10', 10),
+      cooldownMs: parseInt(process.env.ZOOM_RECONNECT_COOLDOWN_MS || '900000', 10),
+    },
+
+    // Application-level heartbeat; a connection without a reply in time is treated as dead
+    heartbeat: {
+      intervalMs: parseInt(process.env.ZOOM_HEARTBEAT_INTERVAL_MS || '30000', 10),
+      timeoutMs: parseInt(process.env.ZOOM_HEARTBEAT_TIMEOUT_MS || '10000', 10),
+    },
+
     // OAuth endpoints
     oauth: {
-      tokenUrl: 'https://zoom.us/oauth/token'
-    }
+      tokenUrl: process.env.ZOOM_OAUTH_TOKEN_URL || 'https://zoom.us/oauth/token',
+    },
+
+    // Zoom's own transcript arrives with recording.transcript_completed, some time after the recording
+    transcript: {
+      // Wait for it by default rather than only when a job asks for the zoom provider
+      preferred: process.env.ZOOM_TRANSCRIPT_PREFERRED === 'true',
+      // How long a job waits before transcribing locally (or failing, for the zoom provider)
+      waitMinutes: parseFloat(process.env.ZOOM_TRANSCRIPT_WAIT_MINUTES || '60'),
+    },
   },
   
   openai: {
@@ -38,6 +224,98 @@ export default {
   clickup: {
     apiKey: process.env.CLICKUP_API_KEY || '',
     clientId: process.env.CLICKUP_CLIENT_ID || '',
-    clientSecret: process.env.CLICKUP_CLIENT_SECRET || ''
-  }
+    clientSecret: process.env.CLICKUP_CLIENT_SECRET || '',
+    // Point at a mock server to exercise ClickUp writes without touching real tasks
+    apiUrl: process.env.CLICKUP_API_URL || 'https://api.clickup.com/api/v2',
+    // Resolve tasks read-only and only report the planned changes
+    dryRun: process.env.CLICKUP_DRY_RUN === 'true',
+  },
+
+  events: {
+    // Defaults for each Zoom event subscription
+    handlerConcurrency: parseInt(process.env.EVENT_HANDLER_CONCURRENCY || '1', 10),
+    // Events buffered per subscription while its handler is busy
+    bufferSize: parseInt(process.env.EVENT_BUFFER_SIZE || '100', 10),
+    // What to drop when the buffer is full: 'drop_oldest' or 'drop_newest'
+    overflowPolicy: (process.env.EVENT_OVERFLOW_POLICY || 'drop_oldest') as
+      | 'drop_oldest'
+      | 'drop_newest',
+    handlerTimeoutMs: parseInt(process.env.EVENT_HANDLER_TIMEOUT_MS || '30000', 10),
+  },
+
+  storage: {
+    // Directory for persistent state (job store, etc.)
+    dataDir: process.env.DATA_DIR || 'data',
+  },
+
+  ingestion: {
+    transports: parseZoomTransports(),
+    // Event type patterns to dispatch, e.g. "recording.*,meeting.ended"; every event when unset
+    eventTypes: (process.env.ZOOM_EVENT_TYPES || '*')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+  },
+
+  auth: {
+    // API key checks on /api routes; can only be turned off outside production
+    enabled:
+      process.env.API_AUTH_DISABLED !== 'true' ||
+      (process.env.NODE_ENV || 'development') === 'production',
+    // Audit log of every call to a protected route
+    auditLogPath: process.env.AUDIT_LOG_PATH || `${process.env.DATA_DIR || 'data'}/audit.ndjson`,
+  },
+
+  logging: {
+    privacyLevel: parseLogPrivacyLevel(),
+    // Characters of transcript text kept at the 'truncate' level
+    snippetLength: parseInt(process.env.LOG_SNIPPET_LENGTH || '40', 10),
+    // Extra keys to redact, comma-separated
+    redactKeys: [
+      ...DEFAULT_REDACT_KEYS,
+      ...(process.env.LOG_REDACT_KEYS || '')
+        .split(',')
+        .map((key) => key.trim())
+        .filter(Boolean),
+    ],
+    redactPatterns: parseRedactPatterns(),
+  },
+
+  archive: {
+    // Append every raw WebSocket and webhook event to an NDJSON file for replay
+    enabled: process.env.EVENT_ARCHIVE_ENABLED === 'true',
+    path: process.env.EVENT_ARCHIVE_PATH || `${process.env.DATA_DIR || 'data'}/events.ndjson`,
+    // Events that fail schema validation, in the archive format so they can be replayed once fixed
+    quarantinePath:
+      process.env.EVENT_QUARANTINE_PATH || `${process.env.DATA_DIR || 'data'}/quarantine.ndjson`,
+  },
+
+  uploads: {
+    // Largest audio or video file accepted by /api/process-audio
+    maxSizeMb: parseInt(process.env.UPLOAD_MAX_MB || '500', 10),
+  },
+
+  jobs: {
+    // Number of recordings processed in parallel
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '2', 10),
+  },
+
+  retry: {
+    // Attempts per job before a transient failure is dead-lettered
+    maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || '4', 10),
+    // Delay before the first retry; doubled on each further attempt up to the maximum
+    baseDelaySeconds: parseFloat(process.env.RETRY_BASE_DELAY_SECONDS || '30'),
+    maxDelaySeconds: parseFloat(process.env.RETRY_MAX_DELAY_SECONDS || '900'),
+  },
+
+  review: {
+    // Hold extracted items for human approval before writing to ClickUp
+    enabled: process.env.REVIEW_REQUIRED === 'true',
+    expiryHours: parseFloat(process.env.REVIEW_EXPIRY_HOURS || '48'),
+  },
+
+  dedup: {
+    // How long a processed event is remembered to suppress redeliveries
+    windowHours: parseFloat(process.env.DEDUP_WINDOW_HOURS || '72'),
+  },
 };
\ No newline at end of file
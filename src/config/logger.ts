@@ -1,5 +1,9 @@
 import winston from 'winston';
 import config from './env';
+import { redactValue } from '../utils/logRedaction';
+
+// Redact secrets and personal data (config.logging) before anything is written
+const redact = winston.format((info) => Object.assign(info, redactValue({ ...info })));
 
 // Declare type for global logger
 declare global {
@@ -14,6 +18,7 @@ if (!global.appLogger) {
     level: config.nodeEnv === 'production' ? 'info' : 'debug',
     format: winston.format.combine(
       winston.format.timestamp(),
+      redact(),
       winston.format.printf(({ timestamp, level, message, ...meta }) => {
         return `[${timestamp}] ${level.toUpperCase()}: ${message} ${
           Object.keys(meta).length ? JSON.stringify(meta) : ''
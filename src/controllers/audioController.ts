@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { cleanupFiles } from '../services/audioService';
+import recordingJobQueue from '../services/jobQueueService';
+import { getReportResults } from '../services/pipelineService';
+import { getBooleanParam } from '../utils/helpers';
+import { ApiError, JobOptions, TranscriptionProvider } from '../types';
+
+// Uploaded files are not Zoom recordings, so Zoom transcripts are not an option
+const TRANSCRIPTION_PROVIDERS: TranscriptionProvider[] = ['openai', 'assemblyai'];
+
+// ISO 639-1 code, as accepted by both transcription services
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+
+/**
+ * Run an uploaded audio or video file through the full pipeline.
+ * Form fields: file (required), topic, meetingId, language, transcriptionProvider,
+ * skipClickUp, dryRun, requireReview, async.
+ * The file is processed as a recording job. Responds with the results once the job
+ * has run, or right away with 202 and a job ID to poll when async=true.
+ */
+export const processAudio = async (req: Request, res: Response): Promise<void> => {
+  const file = req.file;
+
+  if (!file) {
+    res
+      .status(400)
+      .json({ status: 'error', error: 'No audio or video file uploaded in field "file"' });
+    return;
+  }
+
+  try {
+    const { topic, meetingId, transcriptionProvider } = req.body || {};
+    const language = req.body?.language ? String(req.body.language).toLowerCase() : undefined;
+
+    const invalid =
+      transcriptionProvider && !TRANSCRIPTION_PROVIDERS.includes(transcriptionProvider)
+        ? `Unknown transcription provider "${transcriptionProvider}". Use one of: ${TRANSCRIPTION_PROVIDERS.join(', ')}`
+        : language && !LANGUAGE_PATTERN.test(language)
+          ? `Invalid language "${language}". Use a two-letter code such as "es" or "en"`
+          : undefined;
+
+    if (invalid) {
+      await cleanupFiles([file.path]);
+      res.status(400).json({ status: 'error', error: invalid });
+      return;
+    }
+
+    const skipClickUp = getBooleanParam(req, 'skipClickUp');
+    const dryRun = getBooleanParam(req, 'dryRun');
+    const requireReview = getBooleanParam(req, 'requireReview');
+    const runAsync = getBooleanParam(req, 'async');
+
+    const jobOptions: JobOptions = {
+      skipClickUp: skipClickUp === true,
+      ...(dryRun !== undefined && { dryRun }),
+      ...(requireReview !== undefined && { requireReview }),
+      ...(transcriptionProvider && { transcriptionProvider }),
+      ...(language && { language }),
+    };
+
+    logger.info(
+      `Received audio upload: ${file.originalname} (${Math.round(file.size / 1024)} KB)`,
+      {
+        options: jobOptions,
+      }
+    );
+
+    // Both paths run as a job, so uploads share the workers and show up in /api/jobs
+    const job = recordingJobQueue.enqueueUpload(
+      { filePath: file.path, fileName: file.originalname, meetingId, topic },
+      jobOptions
+    );
+
+    if (runAsync) {
+      res.status(202).json({
+        status: 'success',
+        message: 'Processing recording',
+        data: { jobId: job.id, options: jobOptions },
+      });
+      return;
+    }
+
+    const finished = await recordingJobQueue.waitForJob(job.id);
+    const report = finished.report;
+
+    // A transient failure is retried later, which the request does not wait for
+    if (finished.status === 'queued') {
+      res.status(202).json({
+        status: 'success',
+        message: `Processing failed during ${report?.failedStage}, retrying at ${finished.nextAttemptAt}`,
+        data: { jobId: job.id, options: jobOptions },
+      });
+      return;
+    }
+
+    if (!report?.success) {
+      res.status(500).json({
+        status: 'error',
+        message: report?.failedStage
+          ? `Pipeline failed during ${report.failedStage}`
+          : `Recording job ${finished.status}`,
+        error: finished.error || finished.cancelReason,
+        jobId: job.id,
+        report,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      ...(report.extractedInfo.length === 0 && {
+        message: 'Processing completed. No animation characters detected in audio.',
+      }),
+      jobId: job.id,
+      results: getReportResults(report),
+      report,
+    });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    if (error.status === 400) {
+      await cleanupFiles([file.path]);
+      res.status(400).json({ status: 'error', error: error.message });
+      return;
+    }
+    logger.error('Error processing uploaded audio', {
+      message: error.message,
+      stack: error.stack,
+    });
+    res.status(500).json({
+      status: 'error',
+      message: error.message,
+    });
+  }
+};
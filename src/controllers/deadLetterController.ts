@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import recordingJobQueue from '../services/jobQueueService';
+import { getDeadLetter, listDeadLetters, markRetried } from '../services/deadLetterService';
+import { getBooleanParam } from '../utils/helpers';
+import {
+  ApiError,
+  ApiResponse,
+  DeadLetter,
+  DeadLetterStatus,
+  JobOptions,
+  RecordingJob,
+} from '../types';
+
+/**
+ * List dead letters, newest first
+ * Query: status (pending, retried), meetingId, limit
+ */
+export const listDeadLetterItems = (req: Request, res: Response): void => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 500);
+    const letters = listDeadLetters({
+      status: req.query.status as DeadLetterStatus | undefined,
+      meetingId: req.query.meetingId as string | undefined,
+    });
+
+    const response: ApiResponse<DeadLetter[]> = {
+      status: 'success',
+      data: letters.slice(0, limit),
+    };
+    res.json({ ...response, total: letters.length });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    logger.error('Error listing dead letters', { message: error.message });
+    res.status(500).json({ status: 'error', error: error.message });
+  }
+};
+
+export const getDeadLetterItem = (req: Request, res: Response): void => {
+  const letter = getDeadLetter(req.params.id);
+
+  if (!letter) {
+    res.status(404).json({ status: 'error', error: `Dead letter not found: ${req.params.id}` });
+    return;
+  }
+  res.json({ status: 'success', data: letter });
+};
+
+/**
+ * Options a dead letter's retry runs with unless the request overrides them:
+ * those of its job, or those stored with the dead letter once the job is gone
+ */
+export const getDeadLetterJobOptions = (req: Request): JobOptions | undefined => {
+  const letter = getDeadLetter(req.params.id);
+  return letter && (recordingJobQueue.getJob(letter.jobId)?.options || letter.options);
+};
+
+/**
+ * Send a dead-lettered recording back to the job queue.
+ * The original job resumes at the stage that failed; if it no longer exists
+ * the original event is queued as a new job.
+ * Query or body: skipClickUp, dryRun (default: the original job's options)
+ */
+export const retryDeadLetter = (req: Request, res: Response): void => {
+  const { id } = req.params;
+
+  try {
+    const letter = getDeadLetter(id);
+    if (!letter) {
+      res.status(404).json({ status: 'error', error: `Dead letter not found: ${id}` });
+      return;
+    }
+    if (letter.status !== 'pending') {
+      res.status(409).json({ status: 'error', error: `Dead letter ${id} was already retried` });
+      return;
+    }
+
+    const skipClickUp = getBooleanParam(req, 'skipClickUp');
+    const dryRun = getBooleanParam(req, 'dryRun');
+    const overrides: JobOptions = {
+      ...(skipClickUp !== undefined && { skipClickUp }),
+      ...(dryRun !== undefined && { dryRun }),
+    };
+
+    let job: RecordingJob | undefined;
+    try {
+      job = recordingJobQueue.retryJob(letter.jobId, overrides);
+    } catch (retryErr) {
+      res.status(409).json({ status: 'error', error: (retryErr as Error).message });
+      return;
+    }
+
+    if (!job && letter.event) {
+      job = recordingJobQueue.enqueue(letter.event, letter.source, {
+        jobOptions: { ...letter.options, ...overrides },
+      });
+    }
+    if (!job) {
+      res.status(409).json({
+        status: 'error',
+        error: `Job ${letter.jobId} no longer exists and there is no event to requeue`,
+      });
+      return;
+    }
+
+    logger.info(`Retrying dead letter ${id} as job ${job.id}`);
+    res.status(202).json({
+      status: 'success',
+      message: 'Recording requeued',
+      data: { deadLetter: markRetried(id), jobId: job.id },
+    });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    if (error.status === 400) {
+      res.status(400).json({ status: 'error', error: error.message });
+      return;
+    }
+    logger.error('Error retrying dead letter', { id, message: error.message });
+    res.status(500).json({ status: 'error', error: error.message });
+  }
+};
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { getReportResults, runPipeline } from '../services/pipelineService';
+import { getBooleanParam } from '../utils/helpers';
+import { parseTranscript, TranscriptFormat, TRANSCRIPT_FORMATS } from '../utils/transcriptParser';
+import { ApiError } from '../types';
+
+// Formats implied by the request content type when no format is given
+const CONTENT_TYPE_FORMATS: Record<string, TranscriptFormat> = {
+  'text/vtt': 'vtt',
+  'application/x-subrip': 'srt',
+};
+
+/**
+ * Extract character/task items from an existing transcript.
+ * Accepts a JSON body { transcript, format, topic, meetingId, apply, dryRun, requireReview }
+ * or the raw transcript as text/plain, text/vtt or application/x-subrip with the options in the query.
+ * Items are only written to ClickUp when apply=true.
+ */
+export const extractFromTranscript = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rawBody = typeof req.body === 'string';
+    const params = rawBody ? req.query : { ...req.query, ...req.body };
+    const content = rawBody ? req.body : params.transcript;
+
+    if (typeof content !== 'string' || content.trim() === '') {
+      res.status(400).json({ status: 'error', error: 'No transcript provided' });
+      return;
+    }
+
+    const format =
+      (params.format as TranscriptFormat | undefined) ||
+      CONTENT_TYPE_FORMATS[req.is(Object.keys(CONTENT_TYPE_FORMATS)) || ''];
+    if (format && !TRANSCRIPT_FORMATS.includes(format)) {
+      res.status(400).json({
+        status: 'error',
+        error: `Unknown transcript format "${format}". Use one of: ${TRANSCRIPT_FORMATS.join(', ')}`,
+      });
+      return;
+    }
+
+    const transcript = parseTranscript(content, format);
+    if (!transcript) {
+      res.status(400).json({ status: 'error', error: 'Transcript contains no text' });
+      return;
+    }
+
+    const apply = getBooleanParam(req, 'apply') === true;
+    logger.info(`Extracting from ${transcript.length} character transcript`, { format, apply });
+
+    // With the transcript already in the state the run starts at extraction
+    const report = await runPipeline(
+      {
+        meetingId: params.meetingId as string | undefined,
+        topic: params.topic as string | undefined,
+        skipClickUp: !apply,
+        dryRun: getBooleanParam(req, 'dryRun'),
+        requireReview: getBooleanParam(req, 'requireReview'),
+      },
+      { state: { transcript } }
+    );
+
+    if (!report.success) {
+      res.status(500).json({
+        status: 'error',
+        message: `Pipeline failed during ${report.failedStage}`,
+        error: report.error,
+        report,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      results: getReportResults(report),
+      report,
+    });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    if (error.status === 400) {
+      res.status(400).json({ status: 'error', error: error.message });
+      return;
+    }
+    logger.error('Error extracting from transcript', {
+      message: error.message,
+      stack: error.stack,
+    });
+    res.status(500).json({
+      status: 'error',
+      message: error.message,
+    });
+  }
+};
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import recordingJobQueue from '../services/jobQueueService';
+import { ApiError, ApiResponse, JobStatus, RecordingJob } from '../types';
+
+/**
+ * Public view of a job. The transcript and raw event stay internal.
+ * @param job - The stored job
+ * @param detailed - Include the full pipeline run report
+ */
+const toJobView = (job: RecordingJob, detailed = false) => ({
+  id: job.id,
+  status: job.status,
+  source: job.source,
+  meetingId: job.meetingId,
+  meetingUuid: job.meetingUuid,
+  topic: job.topic,
+  subscription: job.subscription,
+  recordingFile: job.recordingFile,
+  fileName: job.fileName,
+  transcriptionProvider: job.checkpoints.transcriptionProvider,
+  extractedInfo: job.checkpoints.extractedInfo || [],
+  clickUpUpdates: job.checkpoints.clickUpUpdates || [],
+  attempts: job.attempts,
+  error: job.error,
+  nextAttemptAt: job.nextAttemptAt,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt,
+  ...(detailed && { report: job.report }),
+});
+
+/**
+ * Parse an optional date query parameter
+ * @param value - Raw query value
+ * @param name - Parameter name for error messages
+ */
+const parseDateParam = (value: unknown, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = new Date(String(value)).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid date for "${name}": ${value}`);
+  }
+  return time;
+};
+
+/**
+ * List jobs, newest first
+ * Query: meetingId, status (comma separated), from, to (ISO dates on creation time), limit
+ */
+export const listJobs = (req: Request, res: Response): void => {
+  try {
+    const { meetingId, status } = req.query;
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 500);
+
+    let from: number | undefined;
+    let to: number | undefined;
+    try {
+      from = parseDateParam(req.query.from, 'from');
+      to = parseDateParam(req.query.to, 'to');
+    } catch (parseErr) {
+      res.status(400).json({ status: 'error', error: (parseErr as Error).message });
+      return;
+    }
+
+    const statuses = status ? (String(status).split(',') as JobStatus[]) : undefined;
+
+    const jobs = recordingJobQueue
+      .listJobs()
+      .filter(
+        (job) =>
+          !meetingId || job.meetingId === String(meetingId) || job.meetingUuid === String(meetingId)
+      )
+      .filter((job) => !statuses || statuses.includes(job.status))
+      .filter((job) => from === undefined || new Date(job.createdAt).getTime() >= from)
+      .filter((job) => to === undefined || new Date(job.createdAt).getTime() <= to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const response: ApiResponse<ReturnType<typeof toJobView>[]> = {
+      status: 'success',
+      data: jobs.slice(0, limit).map((job) => toJobView(job)),
+    };
+    res.json({ ...response, total: jobs.length });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    logger.error('Error listing jobs', { message: error.message });
+    res.status(500).json({ status: 'error', error: error.message });
+  }
+};
+
+/**
+ * Get a single job with its pipeline run report
+ */
+export const getJob = (req: Request, res: Response): void => {
+  try {
+    const job = recordingJobQueue.getJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({ status: 'error', error: `Job not found: ${req.params.id}` });
+      return;
+    }
+
+    const response: ApiResponse<ReturnType<typeof toJobView>> = {
+      status: 'success',
+      data: toJobView(job, true),
+    };
+    res.json(response);
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    logger.error('Error fetching job', { id: req.params.id, message: error.message });
+    res.status(500).json({ status: 'error', error: error.message });
+  }
+};
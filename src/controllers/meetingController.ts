@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import config from '../config/env';
+import logger from '../config/logger';
+import recordingJobQueue from '../services/jobQueueService';
+import { listMeetingRecords } from '../services/meetingMetadataService';
+import { getAccessToken } from '../services/zoomAuthService';
+import { getMeetingRecordings } from '../services/zoomRecordingService';
+import { validateZoomEvent } from '../schemas/zoomEventSchemas';
+import { getBooleanParam } from '../utils/helpers';
+import {
+  ApiError,
+  ApiResponse,
+  JobOptions,
+  MeetingRecord,
+  RecordingCompletedEvent,
+  TranscriptionProvider,
+} from '../types';
+
+const TRANSCRIPTION_PROVIDERS: TranscriptionProvider[] = ['openai', 'assemblyai', 'zoom'];
+
+/**
+ * Reprocess the cloud recordings of an existing Zoom meeting
+ * Body: skipClickUp, dryRun, requireReview, transcriptionProvider, reuseTranscript,
+ * subscription (whose Zoom credentials to use) (all optional)
+ */
+export const reprocessMeeting = async (req: Request, res: Response): Promise<void> => {
+  const { meetingId } = req.params;
+
+  try {
+    const { transcriptionProvider, subscription } = req.body || {};
+    const skipClickUp = getBooleanParam(req, 'skipClickUp');
+    const dryRun = getBooleanParam(req, 'dryRun');
+    const requireReview = getBooleanParam(req, 'requireReview');
+    const reuseTranscript = getBooleanParam(req, 'reuseTranscript');
+
+    if (subscription && !config.zoom.subscriptions.some((s) => s.name === subscription)) {
+      res.status(400).json({
+        status: 'error',
+        error: `Unknown Zoom subscription "${subscription}"`,
+      });
+      return;
+    }
+
+    if (transcriptionProvider && !TRANSCRIPTION_PROVIDERS.includes(transcriptionProvider)) {
+      res.status(400).json({
+        status: 'error',
+        error: `Unknown transcription provider "${transcriptionProvider}". Use one of: ${TRANSCRIPTION_PROVIDERS.join(', ')}`,
+      });
+      return;
+    }
+
+    const jobOptions: JobOptions = {
+      skipClickUp: skipClickUp === true,
+      ...(dryRun !== undefined && { dryRun }),
+      ...(requireReview !== undefined && { requireReview }),
+      reuseTranscript: reuseTranscript === true,
+      ...(transcriptionProvider && { transcriptionProvider }),
+    };
+
+    logger.info(`Reprocessing meeting ${meetingId}`, { options: jobOptions });
+
+    // Fetch the meeting's recordings from Zoom and run them as a new recording event
+    const accessToken = await getAccessToken(subscription);
+    const meeting = await getMeetingRecordings(meetingId, accessToken);
+
+    // Checked like a received event, so the job never sees recordings it cannot handle
+    const validation = validateZoomEvent({
+      event: 'recording.completed',
+      event_ts: Date.now(),
+      payload: { object: { ...meeting, recording_files: meeting.recording_files || [] } },
+      ...(subscription && { subscription }),
+    });
+    if (!validation.success) {
+      logger.error(`Zoom returned invalid recordings for meeting ${meetingId}`, {
+        issues: validation.issues,
+      });
+      res.status(502).json({
+        status: 'error',
+        message: 'Failed to reprocess meeting',
+        error: 'Zoom returned recordings that are not a valid recording event',
+        issues: validation.issues,
+      });
+      return;
+    }
+    const event = validation.data as RecordingCompletedEvent;
+
+    // Queued directly, so explicit reprocessing is never suppressed as a duplicate
+    const job = recordingJobQueue.enqueue(event, 'manual', { jobOptions });
+
+    res.status(202).json({
+      status: 'success',
+      message: `Reprocessing meeting ${meeting.topic}`,
+      data: {
+        jobId: job.id,
+        recordingFile: job.recordingFile,
+        transcriptReused: job.checkpoints.transcript !== undefined,
+        options: jobOptions,
+      },
+    });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    logger.error(`Failed to reprocess meeting ${meetingId}`, { message: error.message });
+    res.status(error.status === 400 || error.status === 404 ? error.status : 500).json({
+      status: 'error',
+      message: 'Failed to reprocess meeting',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * List meetings recorded from meeting.ended events, most recently ended first
+ * Query: meetingId (only instances of this meeting), limit
+ */
+export const listMeetings = (req: Request, res: Response): void => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 500);
+    const meetings = listMeetingRecords(req.query.meetingId as string | undefined);
+
+    const response: ApiResponse<MeetingRecord[]> = {
+      status: 'success',
+      data: meetings.slice(0, limit),
+    };
+    res.json({ ...response, total: meetings.length });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    logger.error('Error listing meetings', { message: error.message });
+    res.status(500).json({ status: 'error', error: error.message });
+  }
+};
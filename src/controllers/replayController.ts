@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { ArchiveFilter, parseArchive, readArchivedEvents } from '../services/eventArchiveService';
+import { cancelReplay, getReplay, listReplays, startReplay } from '../services/eventReplayService';
+import { zoomEventSourceSchema } from '../schemas/zoomEventSchemas';
+import { getBooleanParam } from '../utils/helpers';
+import { ApiError, ArchivedEvent, ReplayTiming } from '../types';
+
+const REPLAY_TIMINGS: ReplayTiming[] = ['original', 'fast'];
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    const error: ApiError = new Error(`Invalid date: ${value}`);
+    error.status = 400;
+    throw error;
+  }
+  return date;
+};
+
+/**
+ * Replay archived Zoom events through the event handlers
+ * Body: eventTypes (list or comma-separated patterns), from, to, limit,
+ * timing (original, fast), speed, dryRun (default true), skipClickUp,
+ * events (archived events to replay instead of the server's archive) (all optional)
+ */
+export const startEventReplay = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { timing = 'fast', speed, events } = req.body || {};
+    const dryRun = getBooleanParam(req, 'dryRun');
+    const skipClickUp = getBooleanParam(req, 'skipClickUp');
+
+    if (!REPLAY_TIMINGS.includes(timing)) {
+      res.status(400).json({
+        status: 'error',
+        error: `Unknown timing "${timing}". Use one of: ${REPLAY_TIMINGS.join(', ')}`,
+      });
+      return;
+    }
+    if (speed !== undefined && !(Number(speed) > 0)) {
+      res.status(400).json({ status: 'error', error: 'speed must be a positive number' });
+      return;
+    }
+    if (events !== undefined && !Array.isArray(events)) {
+      res.status(400).json({ status: 'error', error: 'events must be a list of archived events' });
+      return;
+    }
+    const badSource = (events || []).findIndex(
+      (entry: any) => !zoomEventSourceSchema.safeParse(entry?.source).success
+    );
+    if (badSource !== -1) {
+      res.status(400).json({
+        status: 'error',
+        error: `events[${badSource}].source must be one of: ${zoomEventSourceSchema.options.join(', ')}`,
+      });
+      return;
+    }
+
+    const eventTypes: string[] | undefined =
+      typeof req.body?.eventTypes === 'string'
+        ? req.body.eventTypes
+            .split(',')
+            .map((type: string) => type.trim())
+            .filter(Boolean)
+        : req.body?.eventTypes;
+
+    const filter: ArchiveFilter = {
+      eventTypes,
+      from: parseDate(req.body?.from),
+      to: parseDate(req.body?.to),
+      limit: req.body?.limit ? parseInt(String(req.body.limit), 10) : undefined,
+    };
+
+    // Events sent with the request are validated and filtered like archive lines
+    const archived: ArchivedEvent[] = events
+      ? parseArchive(events.map((entry: unknown) => JSON.stringify(entry)).join('\n'), filter)
+      : await readArchivedEvents(filter);
+
+    if (archived.length === 0) {
+      res.status(404).json({ status: 'error', error: 'No archived events match the filter' });
+      return;
+    }
+
+    const run = startReplay(archived, {
+      timing,
+      speed: speed !== undefined ? Number(speed) : undefined,
+      eventTypes,
+      ...(dryRun !== undefined && { dryRun }),
+      skipClickUp: skipClickUp === true,
+    });
+
+    res.status(202).json({ status: 'success', data: run });
+  } catch (err: unknown) {
+    const error = err as ApiError;
+    logger.error('Error starting event replay', { message: error.message });
+    res.status(error.status || 500).json({ status: 'error', error: error.message });
+  }
+};
+
+export const listEventReplays = (req: Request, res: Response): void => {
+  res.json({ status: 'success', data: listReplays() });
+};
+
+export const getEventReplay = (req: Request, res: Response): void => {
+  const run = getReplay(req.params.id);
+
+  if (!run) {
+    res.status(404).json({ status: 'error', error: `Replay not found: ${req.params.id}` });
+    return;
+  }
+  res.json({ status: 'success', data: run });
+};
+
+export const cancelEventReplay = (req: Request, res: Response): void => {
+  const run = cancelReplay(req.params.id);
+
+  if (!run) {
+    res.status(404).json({ status: 'error', error: `Replay not found: ${req.params.id}` });
+    return;
+  }
+  res.json({ status: 'success', data: run });
+};
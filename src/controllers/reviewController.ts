@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import {
+  approveReviewItem,
+  editReviewItem,
+  getReviewItem,
+  listReviewItems,
+  rejectReviewItem,
+  ReviewEdits,
+} from '../services/reviewService';
+import { getBooleanParam } from '../utils/helpers';
+import { ApiError, ApiKey, JobOptions, ReviewStatus } from '../types';
+
+/**
+ * Pick the editable fields from a request body
+ */
+const getEdits = (body: any): ReviewEdits => {
+  const { character, task, context } = body || {};
+  return {
+    ...(character !== undefined && { character }),
+    ...(task !== undefined && { task }),
+    ...(context !== undefined && { context }),
+  };
+};
+
+/**
+ * The reviewer is whoever holds the API key of the request, never a name it sends
+ */
+const getReviewer = (res: Response): string | undefined =>
+  (res.locals.apiKey as ApiKey | undefined)?.name;
+
+/**
+ * Send an error response, using the status attached by the review service when present
+ */
+const sendError = (res: Response, err: unknown, action: string): void => {
+  const error = err as ApiError;
+  const status = error.status || 500;
+
+  if (status >= 500) {
+    logger.error(`Error trying to ${action}`, { message: error.message });
+  }
+  res.status(status).json({ status: 'error', error: error.message });
+};
+
+/**
+ * List review items. Query: status, jobId
+ */
+export const listReviews = (req: Request, res: Response): void => {
+  try {
+    const items = listReviewItems({
+      status: req.query.status as ReviewStatus | undefined,
+      jobId: req.query.jobId as string | undefined,
+    });
+    res.json({ status: 'success', data: items, total: items.length });
+  } catch (err) {
+    sendError(res, err, 'list review items');
+  }
+};
+
+export const getReview = (req: Request, res: Response): void => {
+  const item = getReviewItem(req.params.id);
+
+  if (!item) {
+    res.status(404).json({ status: 'error', error: `Review item not found: ${req.params.id}` });
+    return;
+  }
+  res.json({ status: 'success', data: item });
+};
+
+/**
+ * Edit a pending item. Body: character, task, context
+ */
+export const editReview = (req: Request, res: Response): void => {
+  try {
+    const item = editReviewItem(req.params.id, getEdits(req.body), getReviewer(res));
+    res.json({ status: 'success', data: item });
+  } catch (err) {
+    sendError(res, err, 'edit review item');
+  }
+};
+
+/**
+ * Options an approval runs with unless the request overrides them: items held
+ * by a dry run only plan their ClickUp changes
+ */
+export const getReviewItemOptions = (req: Request): JobOptions | undefined => {
+  const item = getReviewItem(req.params.id);
+  return item?.dryRun ? { dryRun: true } : undefined;
+};
+
+/**
+ * Approve a pending item and apply it to ClickUp.
+ * Body: optional edits (character, task, context), dryRun
+ */
+export const approveReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const item = await approveReviewItem(req.params.id, {
+      edits: getEdits(req.body),
+      reviewer: getReviewer(res),
+      dryRun: getBooleanParam(req, 'dryRun'),
+    });
+    res.json({ status: 'success', data: item });
+  } catch (err) {
+    sendError(res, err, 'approve review item');
+  }
+};
+
+/**
+ * Reject a pending item. Body: reason
+ */
+export const rejectReview = (req: Request, res: Response): void => {
+  try {
+    const item = rejectReviewItem(req.params.id, {
+      reason: req.body?.reason,
+      reviewer: getReviewer(res),
+    });
+    res.json({ status: 'success', data: item });
+  } catch (err) {
+    sendError(res, err, 'reject review item');
+  }
+};
@@ -1,204 +1,125 @@
-import axios from 'axios';
 import logger from '../config/logger';
-import { downloadFile, convertToMp3, cleanupFiles } from '../services/audioService';
-import { extractInformationWithLemur, extractInformationWithZoom } from '../services/extractionService';
-import { updateClickUpTask } from '../services/clickupService';
-import { ApiError, ExtractedInfo, ZoomMeeting, ZoomRecordingFile } from '../types';
-import { getAccessToken } from '../services/zoomAuthService';
-import { enableZoomTranscription } from '../services/zoomTranscriptionService';
+import recordingJobQueue, { findTranscriptFile } from '../services/jobQueueService';
+import { recordMeetingEnded } from '../services/meetingMetadataService';
+import {
+  KnownZoomEvent,
+  MeetingLifecycleEvent,
+  RecordingCompletedEvent,
+  RecordingJob,
+  RecordingRemovedEvent,
+  RecordingTranscriptCompletedEvent,
+} from '../types';
 
 /**
- * Process Zoom events received via WebSocket
- * @param event - The event data from Zoom WebSocket
+ * Persist a recording event as a job, so a restart mid-processing doesn't lose it.
+ * Replayed events run with the replay's ClickUp options.
+ * @param event - Recording event carrying the files to process
  */
-export const processZoomEvent = async (event: any): Promise<void> => {
-  try {
-    // Log the event type
-    const eventType = event.event_type || event.event;
-    logger.info(`Processing Zoom event: ${eventType}`, { 
-      eventId: event.payload?.object?.id || 'unknown'
-    });
-    
-    // Handle different event types
-    switch (eventType) {
-      case 'recording.completed':
-        await handleRecordingCompleted(event);
-        break;
-      
-      case 'endpoint.url_validation':
-        // This should not happen via WebSocket but included for completeness
-        logger.info('Received endpoint validation via WebSocket - this is unexpected');
-        break;
-      
-      default:
-        logger.info(`Unhandled event type: ${eventType}`);
-        break;
-    }
-  } catch (err) {
-    const error = err as ApiError;
-    logger.error('Error processing Zoom event', { 
-      message: error.message, 
-      stack: error.stack 
-    });
+const enqueueRecording = (
+  event: RecordingCompletedEvent | RecordingTranscriptCompletedEvent
+): RecordingJob => {
+  const { replay } = event;
+  return replay
+    ? recordingJobQueue.enqueue(event, 'replay', {
+        jobOptions: { dryRun: replay.dryRun !== false, skipClickUp: replay.skipClickUp === true },
+      })
+    : recordingJobQueue.enqueue(event, event.source || 'websocket');
+};
+
+/**
+ * Replayed events must not change live state: they cannot cancel or resume
+ * real jobs or overwrite meeting records
+ * @param event - Event from the event bus
+ * @returns Whether the event is a replay, logged as skipped
+ */
+const skipReplayed = (event: KnownZoomEvent): boolean => {
+  if (!event.replay) {
+    return false;
   }
+  logger.info(`Replayed ${event.event} event leaves live jobs and meetings unchanged`, {
+    replayId: event.replay.replayId,
+  });
+  return true;
+};
+
+/**
+ * Handle recording.completed events from either transport
+ * @param event - The recording completed event, already validated and deduplicated by ingestion
+ */
+export const handleRecordingCompleted = async (event: RecordingCompletedEvent): Promise<void> => {
+  logger.info(`Processing Zoom event: ${event.event}`, {
+    eventId: event.payload.object.id,
+    source: event.source,
+  });
+
+  const job = enqueueRecording(event);
+  logger.info(`Recording job ${job.id} queued for meeting: ${job.topic}`);
 };
 
 /**
- * Process extracted info with rate limiting to avoid API throttling
- * @param extractedInfos - Array of extracted information
+ * Handle recording.transcript_completed: jobs waiting for Zoom's transcript run
+ * with it. A meeting without a job gets one that extracts from the transcript alone.
+ * A replayed event always gets its own job, run with the replay's ClickUp options.
+ * @param event - The transcript completed event
  */
-const processExtractedInfoWithRateLimit = async (extractedInfos: ExtractedInfo[]): Promise<void> => {
-  logger.info(`Processing ${extractedInfos.length} extracted character/task combinations with rate limiting`);
-  
-  // Group infos by character to reduce duplicative API calls
-  const characterGroups = new Map<string, ExtractedInfo[]>();
-  
-  for (const info of extractedInfos) {
-    if (!characterGroups.has(info.character)) {
-      characterGroups.set(info.character, []);
-    }
-    characterGroups.get(info.character)!.push(info);
+export const handleTranscriptCompleted = async (
+  event: RecordingTranscriptCompletedEvent
+): Promise<void> => {
+  const meeting = event.payload.object;
+  const transcriptFile = findTranscriptFile(meeting.recording_files);
+  if (!transcriptFile) {
+    logger.warn(`Zoom event ${event.event} for meeting ${meeting.id} has no transcript file`);
+    return;
   }
-  
-  // Process each character group
-  for (const [character, infos] of characterGroups.entries()) {
-    try {
-      logger.info(`Updating ClickUp for character: ${character} with ${infos.length} tasks`);
-      
-      // Process first task
-      await updateClickUpTask(infos[0]);
-      logger.info(`Successfully updated primary task for character ${character}`);
-      
-      // Add delay to avoid rate limiting
-      if (infos.length > 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Process any additional tasks
-        for (let i = 1; i < infos.length; i++) {
-          try {
-            await updateClickUpTask(infos[i]);
-            logger.info(`Successfully updated additional task ${i} for character ${character}`);
-            
-            // Add delay between requests
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          } catch (taskErr: unknown) {
-            const taskError = taskErr as ApiError;
-            logger.error(`Failed to update additional task ${i} for ${character}`, { 
-              message: taskError.message 
-            });
-          }
-        }
-      }
-      
-      // Add delay between characters
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } catch (updateErr: unknown) {
-      const updateError = updateErr as ApiError;
-      logger.error(`Failed to update ClickUp for character ${character}`, { 
-        message: updateError.message,
-        stack: updateError.stack 
-      });
-    }
+
+  if (event.replay) {
+    const job = enqueueRecording(event);
+    logger.info(`Replay job ${job.id} queued from Zoom transcript for meeting: ${job.topic}`);
+    return;
+  }
+
+  const { resumed, hasJobs } = recordingJobQueue.attachZoomTranscript(meeting, transcriptFile);
+  if (resumed.length > 0) {
+    logger.info(`Zoom transcript resumed ${resumed.length} jobs for meeting: ${meeting.topic}`);
+    return;
   }
-  
-  logger.info('Completed processing all character/task combinations');
+  // The recording was processed without waiting, or is being processed
+  if (hasJobs) {
+    logger.info(`Zoom transcript for meeting ${meeting.id} arrived after its jobs started`);
+    return;
+  }
+
+  const job = enqueueRecording(event);
+  logger.info(`Recording job ${job.id} queued from Zoom transcript for meeting: ${job.topic}`);
 };
 
 /**
- * Handle recording.completed events
- * @param event - The recording completed event
+ * Handle recording.deleted and recording.trashed: the recording can no longer
+ * be downloaded, so its unfinished jobs are cancelled
+ * @param event - The recording removed event
  */
-const handleRecordingCompleted = async (event: any): Promise<void> => {
-  const filesToCleanup: string[] = [];
-  
-  try {
-    // Extract recording information
-    const eventPayload = event.payload || {};
-    const meeting = eventPayload.object as ZoomMeeting;
-    
-    if (!meeting) {
-      throw new Error('No meeting data in event payload');
-    }
-    
-    const recordings = meeting.recording_files || [];
-    
-    logger.info(`Processing recording for meeting: ${meeting.topic}`);
-    
-    // Find audio recording
-    const audioRecording = recordings.find((file: ZoomRecordingFile) => 
-      file.file_type === 'M4A' || 
-      file.file_type === 'MP4' || 
-      file.recording_type === 'audio_only'
-    );
-    
-    if (!audioRecording) {
-      throw new Error('No audio recording found');
-    }
-    
-    // Get Zoom access token for API calls
-    const accessToken = await getAccessToken();
-    
-    // Request transcription from Zoom (may take time to process)
-    try {
-      await enableZoomTranscription(meeting.id, audioRecording.id, accessToken);
-      logger.info('Requested Zoom transcription for the recording');
-    } catch (transcriptionErr) {
-      logger.warn('Failed to request Zoom transcription, will use local processing', {
-        error: (transcriptionErr as Error).message
-      });
-    }
-    
-    // Download file
-    const downloadToken = meeting.download_token;
-    logger.info(`Downloading recording from URL: ${audioRecording.download_url}`);
-    const downloadedFilePath = await downloadFile(audioRecording.download_url, downloadToken);
-    filesToCleanup.push(downloadedFilePath);
-    
-    // Convert to MP3
-    logger.info(`Converting downloaded file to MP3: ${downloadedFilePath}`);
-    const mp3FilePath = await convertToMp3(downloadedFilePath);
-    filesToCleanup.push(mp3FilePath);
-    
-    // Extract information using Zoom transcription if possible, or our own otherwise
-    logger.info(`Extracting information from recording`);
-    let extractedInfos: ExtractedInfo[] = [];
-    
-    try {
-      // Try to use Zoom's transcription first
-      extractedInfos = await extractInformationWithZoom(
-        mp3FilePath,
-        audioRecording.id,
-        accessToken
-      );
-    } catch (error) {
-      // If that fails, use our own transcription and extraction
-      logger.warn('Zoom transcription extraction failed, using local extraction', {
-        error: (error as Error).message
-      });
-      extractedInfos = await extractInformationWithLemur(mp3FilePath);
-    }
-    
-    // If no information was extracted, log a warning and exit
-    if (extractedInfos.length === 0) {
-      logger.warn(`No character/task combinations found in recording from meeting: ${meeting.topic}`);
-      return;
-    }
-    
-    logger.info(`Successfully extracted ${extractedInfos.length} character/task combinations`);
-    
-    // Update ClickUp with rate limiting
-    await processExtractedInfoWithRateLimit(extractedInfos);
-    
-    logger.info(`Successfully processed all ${extractedInfos.length} characters from meeting ${meeting.topic}`);
-  } catch (err: unknown) {
-    const error = err as ApiError;
-    logger.error('Error processing recording', { message: error.message, stack: error.stack });
-    throw error;
-  } finally {
-    // Clean up temporary files
-    if (filesToCleanup.length > 0) {
-      logger.info(`Cleaning up ${filesToCleanup.length} temporary files`);
-      await cleanupFiles(filesToCleanup);
-    }
-  }
-};
\ No newline at end of file
+export const handleRecordingRemoved = async (event: RecordingRemovedEvent): Promise<void> => {
+  if (skipReplayed(event)) return;
+
+  const meeting = event.payload.object;
+  const fileIds = (meeting.recording_files || []).map((file) => file.id);
+
+  const cancelled = recordingJobQueue.cancelMeetingJobs(
+    meeting,
+    `Recording ${event.event === 'recording.trashed' ? 'moved to trash' : 'deleted'} in Zoom`,
+    fileIds
+  );
+  logger.info(
+    `Zoom event ${event.event} cancelled ${cancelled.length} jobs for meeting ${meeting.id}`
+  );
+};
+
+/**
+ * Handle meeting.ended by recording the meeting's details
+ * @param event - The meeting ended event
+ */
+export const handleMeetingEnded = async (event: MeetingLifecycleEvent): Promise<void> => {
+  if (skipReplayed(event)) return;
+
+  recordMeetingEnded(event);
+};
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
-import crypto from 'crypto';
 import config from '../config/env';
 import logger from '../config/logger';
+import { createValidationResponse } from '../utils/webhookSecrets';
 
 /**
  * Handles Zoom URL validation requests
@@ -9,30 +9,22 @@ import logger from '../config/logger';
  */
 export const handleZoomValidation = (req: Request, res: Response): void => {
   try {
-    logger.info('Processing Zoom URL validation request', { body: req.body });
+    logger.info('Processing Zoom URL validation request', { event: req.body?.event });
     
     // Ensure the required fields are present
     if (!req.body || !req.body.payload || !req.body.payload.plainToken) {
-      logger.error('Invalid validation request format', { body: req.body });
+      logger.error('Invalid validation request format', { event: req.body?.event });
       res.status(400).json({ error: 'Invalid request format' });
       return;
     }
     
-    const plainToken = req.body.payload.plainToken;
+    // Answer with the verification token that signed the request, or the first active one
+    const { plainToken, encryptedToken, tokenName } = createValidationResponse(
+      req,
+      config.zoom.verificationTokens
+    );
     
-    // Log the token and verification token for debugging
-    logger.info('Validation tokens', {
-      plainToken,
-      verificationTokenPrefix: config.zoom.verificationToken ? 
-        (config.zoom.verificationToken.substring(0, 5) + '...') : 
-        'NOT_SET'
-    });
-    
-    // Generate the encrypted token using the verification token
-    const hashAlgorithm = crypto.createHmac('sha256', config.zoom.verificationToken);
-    const encryptedToken = hashAlgorithm.update(plainToken).digest('hex');
-    
-    logger.info('Generated response', { plainToken, encryptedToken });
+    logger.info('Generated response', { verificationToken: tokenName });
     
     // Send back the required format for validation
     res.status(200).json({
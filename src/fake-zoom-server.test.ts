@@ -0,0 +1,198 @@
+import fs from 'fs';
+import config from './config/env';
+import { FakeZoomServer } from './fake-zoom-server';
+import { downloadFile } from './services/audioService';
+import { getAccessToken, invalidateToken } from './services/zoomAuthService';
+import { getMeetingRecordings } from './services/zoomRecordingService';
+import { downloadZoomTranscript } from './services/zoomTranscriptionService';
+import { ZoomWebSocketService } from './services/zoomWebSocketService';
+import { ZoomRecordingFile, ZoomSubscriptionConfig, ZoomWebhookEvent } from './types';
+
+const SUBSCRIPTION: ZoomSubscriptionConfig = {
+  name: 'fake',
+  subscriptionId: 'fake-subscription',
+  accountId: 'fake-account',
+  clientId: 'fake-client',
+  clientSecret: 'fake-secret',
+};
+
+const recordingFiles = (event: ZoomWebhookEvent): ZoomRecordingFile[] =>
+  (event.payload?.object?.recording_files as ZoomRecordingFile[] | undefined) || [];
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('FakeZoomServer', () => {
+  const server = new FakeZoomServer({ port: 0 });
+  const originalZoom = { ...config.zoom };
+
+  beforeAll(async () => {
+    await server.start();
+    config.zoom.subscriptions = [SUBSCRIPTION];
+    config.zoom.oauth = { tokenUrl: server.env.ZOOM_OAUTH_TOKEN_URL };
+    config.zoom.wsUrl = server.env.ZOOM_WS_URL;
+    config.zoom.apiUrl = server.env.ZOOM_API_URL;
+    config.zoom.heartbeat = { intervalMs: 50, timeoutMs: 100 };
+    config.zoom.reconnect = { ...config.zoom.reconnect, baseDelayMs: 20, maxDelayMs: 50 };
+  });
+
+  afterEach(() => {
+    server.resetFaults();
+    invalidateToken(SUBSCRIPTION.name);
+  });
+
+  afterAll(async () => {
+    Object.assign(config.zoom, originalZoom);
+    await server.stop();
+  });
+
+  describe('OAuth', () => {
+    it('issues access tokens that the recordings API accepts', async () => {
+      const event = server.createRecordingCompletedEvent({ id: '111', topic: 'Standup' });
+      server.emitEvent(event);
+
+      const meeting = await getMeetingRecordings('111', await getAccessToken(SUBSCRIPTION.name));
+
+      expect(meeting.topic).toBe('Standup');
+      expect(meeting.download_token).toMatch(/^fake-download-/);
+    });
+
+    it('fails token requests while they are rejected', async () => {
+      server.setFaults({ rejectTokenRequests: 1 });
+
+      await expect(getAccessToken(SUBSCRIPTION.name)).rejects.toThrow(
+        'Failed to obtain Zoom API access token'
+      );
+      await expect(getAccessToken(SUBSCRIPTION.name)).resolves.toMatch(/^fake-/);
+    });
+
+    it('refuses subscriptions that are not configured', async () => {
+      const tokensBefore = server.getState().tokens;
+
+      await expect(getAccessToken('other')).rejects.toMatchObject({
+        status: 400,
+        message: 'Unknown Zoom subscription "other"',
+      });
+      expect(server.getState().tokens).toBe(tokensBefore);
+    });
+  });
+
+  describe('event WebSocket', () => {
+    let events: Record<string, any>[];
+    let connection: ZoomWebSocketService;
+
+    beforeEach(() => {
+      events = [];
+      connection = new ZoomWebSocketService(SUBSCRIPTION, (event) => events.push(event));
+    });
+
+    afterEach(() => {
+      connection.close();
+    });
+
+    it('delivers events and answers heartbeats', async () => {
+      await connection.initialize();
+      await waitFor(() => connection.isConnected());
+
+      const event = server.createRecordingCompletedEvent();
+      expect(server.emitEvent(event)).toBe(1);
+
+      await waitFor(() => events.length === 1);
+      expect(events[0]).toEqual(event);
+      await waitFor(() => connection.getStatus().lastHeartbeatAt !== undefined);
+    });
+
+    it('reconnects after an abrupt close', async () => {
+      await connection.initialize();
+      await waitFor(() => connection.isConnected());
+
+      expect(server.disconnectAll()).toBe(1);
+
+      await waitFor(() => connection.getStatus().totalReconnects === 1);
+      await waitFor(() => connection.isConnected());
+      expect(server.emitEvent(server.createRecordingCompletedEvent())).toBe(1);
+      await waitFor(() => events.length === 1);
+    });
+
+    it('reconnects with a new token after an auth failure', async () => {
+      server.setFaults({ rejectConnections: 1 });
+      const tokensBefore = server.getState().tokens;
+
+      await connection.initialize();
+
+      await waitFor(() => connection.isConnected());
+      expect(connection.getStatus().totalReconnects).toBe(1);
+      expect(server.getState().tokens).toBe(tokensBefore + 2);
+    });
+
+    it('reconnects when heartbeat replies stop', async () => {
+      await connection.initialize();
+      await waitFor(() => connection.isConnected());
+
+      server.setFaults({ dropHeartbeats: true });
+      await waitFor(() => connection.getStatus().lastError === 'No heartbeat reply');
+
+      server.resetFaults();
+      await waitFor(() => connection.getStatus().totalReconnects > 0);
+      await waitFor(() => connection.isConnected());
+    });
+  });
+
+  describe('recording downloads', () => {
+    const downloaded: string[] = [];
+
+    afterAll(() => {
+      downloaded.forEach((filePath) => fs.rmSync(filePath, { force: true }));
+    });
+
+    it('serves the sample media for a recording file', async () => {
+      const event = server.createRecordingCompletedEvent();
+      const [file] = recordingFiles(event);
+
+      const filePath = await downloadFile(file.download_url, String(event.download_token));
+      downloaded.push(filePath);
+
+      expect(fs.statSync(filePath).size).toBe(file.file_size);
+    });
+
+    it('holds back delayed downloads', async () => {
+      server.setFaults({ downloadDelayMs: 200 });
+      const [file] = recordingFiles(server.createRecordingCompletedEvent());
+
+      const startedAt = Date.now();
+      downloaded.push(await downloadFile(file.download_url));
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(200);
+    });
+
+    it('throttles downloads to the set rate', async () => {
+      const [file] = recordingFiles(server.createRecordingCompletedEvent());
+      // Sent in tenths of the rate every 100ms, so the file takes three chunks
+      server.setFaults({ downloadBytesPerSecond: Math.ceil((file.file_size! * 10) / 3) });
+
+      const startedAt = Date.now();
+      const filePath = await downloadFile(file.download_url);
+      downloaded.push(filePath);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(250);
+      expect(fs.statSync(filePath).size).toBe(file.file_size);
+    });
+
+    it('serves the transcript of an announced meeting', async () => {
+      server.emitEvent(server.createRecordingCompletedEvent({ id: '222' }));
+      const [transcriptFile] = recordingFiles(server.createTranscriptCompletedEvent('222'));
+
+      const transcript = await downloadZoomTranscript(
+        transcriptFile,
+        await getAccessToken(SUBSCRIPTION.name)
+      );
+
+      expect(transcript).toContain("Alex: Let's go over the open tasks.");
+    });
+  });
+});
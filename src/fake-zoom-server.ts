@@ -0,0 +1,511 @@
+/**
+ * Offline stand-in for the Zoom endpoints this service talks to:
+ * OAuth token endpoint, event WebSocket, recordings API, and recording and transcript downloads.
+ * Faults (rejected tokens and connections, dropped heartbeats, abrupt closes,
+ * slow downloads) are injected through the /control endpoints or the class methods.
+ *
+ * Run with: npm run fake-zoom -- [--port 4999] [--media path/to/sample.m4a]
+ * and point the service at it:
+ *   ZOOM_OAUTH_TOKEN_URL=http://localhost:4999/oauth/token
+ *   ZOOM_WS_URL=ws://localhost:4999/ws
+ *   ZOOM_API_URL=http://localhost:4999/v2
+ */
+
+import fs from 'fs';
+import http from 'http';
+import { randomUUID } from 'crypto';
+import express, { Request, Response } from 'express';
+import bodyParser from 'body-parser';
+import WebSocket from 'ws';
+import logger from './config/logger';
+import { ZoomMeeting, ZoomWebhookEvent } from './types';
+
+export interface FakeZoomFaults {
+  // Answer this many of the next token requests with 401
+  rejectTokenRequests: number;
+  // Fail this many of the next build_connections with an auth error
+  rejectConnections: number;
+  // Stop answering heartbeats, so clients hit their heartbeat timeout
+  dropHeartbeats: boolean;
+  // Terminate each new connection this long after it opens; 0 to keep it open
+  closeAfterMs: number;
+  // Wait this long before a download starts sending data
+  downloadDelayMs: number;
+  // Throttle downloads to this many bytes per second; 0 for unthrottled
+  downloadBytesPerSecond: number;
+  // Lifetime of issued access tokens
+  tokenTtlSeconds: number;
+}
+
+export interface FakeZoomServerOptions {
+  port?: number;
+  // Media file served for recording downloads; a generated one-second WAV tone when omitted
+  mediaPath?: string;
+  faults?: Partial<FakeZoomFaults>;
+}
+
+const DEFAULT_FAULTS: FakeZoomFaults = {
+  rejectTokenRequests: 0,
+  rejectConnections: 0,
+  dropHeartbeats: false,
+  closeAfterMs: 0,
+  downloadDelayMs: 0,
+  downloadBytesPerSecond: 0,
+  tokenTtlSeconds: 3600,
+};
+
+/**
+ * Build a one-second 440 Hz mono WAV tone to serve as sample media
+ */
+const createSampleWav = (): Buffer => {
+  const sampleRate = 16000;
+  const samples = sampleRate;
+  const buffer = Buffer.alloc(44 + samples * 2);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples * 2, 40);
+
+  for (let i = 0; i < samples; i++) {
+    const value = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 0x3fff);
+    buffer.writeInt16LE(value, 44 + i * 2);
+  }
+  return buffer;
+};
+
+// Served for transcript downloads, in the WebVTT format Zoom uses
+const SAMPLE_TRANSCRIPT = `WEBVTT
+
+1
+00:00:00.000 --> 00:00:04.000
+Alex: Let's go over the open tasks.
+
+2
+00:00:04.500 --> 00:00:08.000
+Sam: I finished the login page yesterday.
+`;
+
+/**
+ * Fake Zoom server for end-to-end tests of reconnects and the recording pipeline
+ */
+export class FakeZoomServer {
+  private app = express();
+  private server: http.Server | null = null;
+  private wss: WebSocket.Server | null = null;
+  private faults: FakeZoomFaults;
+  private media: Buffer;
+  // Issued access tokens and their expiry in ms
+  private tokens = new Map<string, number>();
+  // Meetings announced through recording events, served by the recordings API
+  private meetings = new Map<string, ZoomMeeting>();
+  private connections = new Map<WebSocket, string>();
+  private port: number;
+
+  constructor(options: FakeZoomServerOptions = {}) {
+    this.port = options.port ?? 4999;
+    this.faults = { ...DEFAULT_FAULTS, ...options.faults };
+    this.media = options.mediaPath ? fs.readFileSync(options.mediaPath) : createSampleWav();
+    this.setupRoutes();
+  }
+
+  get url(): string {
+    return `http://localhost:${this.port}`;
+  }
+
+  /**
+   * Environment variables that point the service at this server
+   */
+  get env(): Record<string, string> {
+    return {
+      ZOOM_OAUTH_TOKEN_URL: `${this.url}/oauth/token`,
+      ZOOM_WS_URL: `ws://localhost:${this.port}/ws`,
+      ZOOM_API_URL: `${this.url}/v2`,
+    };
+  }
+
+  /**
+   * Start listening
+   */
+  start(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server = this.app.listen(this.port, () => {
+        const address = this.server!.address();
+        if (address && typeof address === 'object') {
+          this.port = address.port;
+        }
+        logger.info(`Fake Zoom server listening on ${this.url}`);
+        resolve();
+      });
+
+      this.wss = new WebSocket.Server({ server: this.server, path: '/ws' });
+      this.wss.on('connection', (socket, request) => this.handleConnection(socket, request));
+    });
+  }
+
+  /**
+   * Close every connection and stop listening
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      this.connections.forEach((_, socket) => socket.terminate());
+      this.connections.clear();
+      this.wss?.close();
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Change the injected faults; omitted fields keep their current value
+   */
+  setFaults(faults: Partial<FakeZoomFaults>): FakeZoomFaults {
+    this.faults = { ...this.faults, ...faults };
+    logger.info('Fake Zoom faults updated', { faults: this.faults });
+    return this.faults;
+  }
+
+  resetFaults(): FakeZoomFaults {
+    return this.setFaults(DEFAULT_FAULTS);
+  }
+
+  /**
+   * Close all event connections
+   * @param abrupt - Terminate the sockets without a close frame
+   * @returns Number of connections closed
+   */
+  disconnectAll(abrupt: boolean = true): number {
+    const count = this.connections.size;
+    this.connections.forEach((_, socket) =>
+      abrupt ? socket.terminate() : socket.close(1001, 'Server going away')
+    );
+    logger.info(`Fake Zoom closed ${count} connections`, { abrupt });
+    return count;
+  }
+
+  /**
+   * Build a recording.transcript_completed event for a meeting announced before
+   * with a recording.completed event; the transcript is added to its recordings
+   * @param meetingId - ID of the announced meeting
+   */
+  createTranscriptCompletedEvent(meetingId: string): ZoomWebhookEvent {
+    const meeting = this.meetings.get(meetingId);
+    if (!meeting) {
+      throw new Error(`Unknown meeting ${meetingId}; send its recording.completed event first`);
+    }
+
+    const fileId = randomUUID();
+    const transcriptFile = {
+      id: fileId,
+      file_type: 'TRANSCRIPT',
+      file_extension: 'VTT',
+      recording_type: 'audio_transcript',
+      file_size: Buffer.byteLength(SAMPLE_TRANSCRIPT),
+      download_url: `${this.url}/rec/download/${fileId}?type=transcript`,
+    };
+    meeting.recording_files = [...(meeting.recording_files || []), transcriptFile];
+
+    return {
+      event: 'recording.transcript_completed',
+      event_ts: Date.now(),
+      download_token: `fake-download-${randomUUID()}`,
+      payload: {
+        account_id: 'fake-account',
+        object: { ...meeting, recording_files: [transcriptFile] },
+      },
+    } as ZoomWebhookEvent;
+  }
+
+  /**
+   * Send an event to the open connections
+   * @param event - Event to deliver, wrapped like Zoom does
+   * @param subscriptionId - Only deliver to connections of this subscription
+   * @returns Number of connections the event was sent to
+   */
+  emitEvent(event: ZoomWebhookEvent, subscriptionId?: string): number {
+    if (event.payload?.object?.recording_files) {
+      this.meetings.set(String(event.payload.object.id), event.payload.object as ZoomMeeting);
+    }
+
+    const message = JSON.stringify({ module: 'message', content: JSON.stringify(event) });
+    let sent = 0;
+    this.connections.forEach((subscription, socket) => {
+      if (!subscriptionId || subscription === subscriptionId) {
+        socket.send(message);
+        sent++;
+      }
+    });
+
+    logger.info(`Fake Zoom sent ${event.event} to ${sent} connections`);
+    return sent;
+  }
+
+  /**
+   * Build a recording.completed event whose recording downloads from this server
+   * @param meeting - Meeting ID and topic; generated when omitted
+   */
+  createRecordingCompletedEvent(meeting: { id?: string; topic?: string } = {}): ZoomWebhookEvent {
+    const id = meeting.id || String(Math.floor(Math.random() * 1e10));
+    const fileId = randomUUID();
+
+    return {
+      event: 'recording.completed',
+      event_ts: Date.now(),
+      download_token: `fake-download-${randomUUID()}`,
+      payload: {
+        account_id: 'fake-account',
+        object: {
+          id,
+          uuid: randomUUID(),
+          topic: meeting.topic || `Fake meeting ${id}`,
+          start_time: new Date().toISOString(),
+          duration: 1,
+          recording_files: [
+            {
+              id: fileId,
+              file_type: 'M4A',
+              recording_type: 'audio_only',
+              file_size: this.media.length,
+              download_url: `${this.url}/rec/download/${fileId}`,
+            },
+          ],
+        },
+      },
+    } as ZoomWebhookEvent;
+  }
+
+  /**
+   * Current connections, issued tokens and faults
+   */
+  getState() {
+    return {
+      connections: [...this.connections.values()].map((subscriptionId) => ({ subscriptionId })),
+      tokens: this.tokens.size,
+      meetings: [...this.meetings.keys()],
+      faults: this.faults,
+    };
+  }
+
+  private setupRoutes(): void {
+    this.app.use(bodyParser.json());
+    this.app.use(bodyParser.urlencoded({ extended: true }));
+
+    // OAuth server-to-server token endpoint
+    this.app.post('/oauth/token', (req: Request, res: Response) => {
+      if (!req.headers.authorization?.startsWith('Basic ')) {
+        res
+          .status(401)
+          .json({ reason: 'Invalid client_id or client_secret', error: 'invalid_client' });
+        return;
+      }
+      if (
+        req.body?.grant_type !== 'account_credentials' &&
+        req.query.grant_type !== 'account_credentials'
+      ) {
+        res.status(400).json({ reason: 'Unsupported grant type', error: 'unsupported_grant_type' });
+        return;
+      }
+      if (this.faults.rejectTokenRequests > 0) {
+        this.faults.rejectTokenRequests--;
+        res
+          .status(401)
+          .json({ reason: 'Invalid client_id or client_secret', error: 'invalid_client' });
+        return;
+      }
+
+      const accessToken = `fake-${randomUUID()}`;
+      this.tokens.set(accessToken, Date.now() + this.faults.tokenTtlSeconds * 1000);
+      res.json({
+        access_token: accessToken,
+        token_type: 'bearer',
+        expires_in: this.faults.tokenTtlSeconds,
+        scope: 'recording:read:admin',
+      });
+    });
+
+    // Recordings API, for meetings announced through recording events
+    this.app.get('/v2/meetings/:meetingId/recordings', (req: Request, res: Response) => {
+      if (!this.isValidToken(req.headers.authorization?.replace(/^Bearer /, ''))) {
+        res.status(401).json({ code: 124, message: 'Invalid access token.' });
+        return;
+      }
+
+      const meeting = this.meetings.get(req.params.meetingId);
+      if (!meeting) {
+        res.status(404).json({ code: 3301, message: 'This recording does not exist.' });
+        return;
+      }
+      res.json({ ...meeting, download_access_token: `fake-download-${randomUUID()}` });
+    });
+
+    // Recording downloads, optionally delayed and throttled
+    this.app.get('/rec/download/:fileId', (req: Request, res: Response) => {
+      const { downloadDelayMs, downloadBytesPerSecond } = this.faults;
+
+      if (req.query.type === 'transcript') {
+        res.type('text/vtt').send(SAMPLE_TRANSCRIPT);
+        return;
+      }
+
+      setTimeout(() => {
+        res.setHeader('Content-Type', 'audio/wav');
+        res.setHeader('Content-Length', this.media.length);
+
+        if (!downloadBytesPerSecond) {
+          res.end(this.media);
+          return;
+        }
+
+        // Send a tenth of the allowed rate every 100ms
+        const chunkSize = Math.max(1, Math.floor(downloadBytesPerSecond / 10));
+        let offset = 0;
+        const timer = setInterval(() => {
+          res.write(this.media.subarray(offset, offset + chunkSize));
+          offset += chunkSize;
+          if (offset >= this.media.length) {
+            clearInterval(timer);
+            res.end();
+          }
+        }, 100);
+        res.on('close', () => clearInterval(timer));
+      }, downloadDelayMs);
+    });
+
+    // Test controls
+    this.app.get('/control/state', (req: Request, res: Response) => {
+      res.json(this.getState());
+    });
+
+    this.app.put('/control/faults', (req: Request, res: Response) => {
+      res.json(this.setFaults(req.body || {}));
+    });
+
+    this.app.delete('/control/faults', (req: Request, res: Response) => {
+      res.json(this.resetFaults());
+    });
+
+    this.app.post('/control/disconnect', (req: Request, res: Response) => {
+      res.json({ closed: this.disconnectAll(req.body?.abrupt !== false) });
+    });
+
+    // Body: a full Zoom event, { meetingId, topic } for a generated recording.completed,
+    // or { type: 'recording.transcript_completed', meetingId } for its transcript
+    this.app.post('/control/events', (req: Request, res: Response) => {
+      if (
+        req.body?.type === 'recording.transcript_completed' &&
+        !this.meetings.has(String(req.body.meetingId))
+      ) {
+        res.status(404).json({ error: `Unknown meeting ${req.body.meetingId}` });
+        return;
+      }
+
+      const event: ZoomWebhookEvent = req.body?.event
+        ? req.body
+        : req.body?.type === 'recording.transcript_completed'
+          ? this.createTranscriptCompletedEvent(String(req.body.meetingId))
+          : this.createRecordingCompletedEvent({ id: req.body?.meetingId, topic: req.body?.topic });
+      const sent = this.emitEvent(event, req.body?.subscriptionId);
+      res.json({ sent, event });
+    });
+  }
+
+  private isValidToken(token?: string): boolean {
+    const expiresAt = token ? this.tokens.get(token) : undefined;
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  /**
+   * Accept an event connection the way Zoom does: answer with build_connection,
+   * then reply to every heartbeat
+   */
+  private handleConnection(socket: WebSocket, request: http.IncomingMessage): void {
+    const query = new URL(request.url || '', this.url).searchParams;
+    const subscriptionId = query.get('subscriptionId') || '';
+
+    if (this.faults.rejectConnections > 0 || !this.isValidToken(query.get('access_token') || '')) {
+      if (this.faults.rejectConnections > 0) {
+        this.faults.rejectConnections--;
+      }
+      socket.send(
+        JSON.stringify({
+          module: 'build_connection',
+          success: false,
+          content: 'Invalid access token',
+        })
+      );
+      socket.close(1008, 'Invalid access token');
+      return;
+    }
+
+    this.connections.set(socket, subscriptionId);
+    socket.send(
+      JSON.stringify({
+        module: 'build_connection',
+        success: true,
+        content: 'Connection established',
+      })
+    );
+    logger.info(`Fake Zoom accepted connection for subscription ${subscriptionId}`);
+
+    if (this.faults.closeAfterMs > 0) {
+      setTimeout(() => socket.terminate(), this.faults.closeAfterMs);
+    }
+
+    socket.on('message', (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.module === 'heartbeat' && !this.faults.dropHeartbeats) {
+          socket.send(JSON.stringify({ module: 'heartbeat', success: true }));
+        }
+      } catch (error) {
+        logger.warn('Fake Zoom received an invalid message', { message: (error as Error).message });
+      }
+    });
+
+    socket.on('close', () => this.connections.delete(socket));
+  }
+}
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '');
+    args[name] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+  }
+  return args;
+};
+
+if (require.main === module) {
+  const args = parseArgs(process.argv.slice(2));
+  const server = new FakeZoomServer({
+    port: parseInt(args.port || process.env.FAKE_ZOOM_PORT || '4999', 10),
+    mediaPath: args.media,
+    ...(args['token-ttl'] && { faults: { tokenTtlSeconds: parseInt(args['token-ttl'], 10) } }),
+  });
+
+  server.start().then(() => {
+    logger.info('Point the service at the fake server with:');
+    Object.entries(server.env).forEach(([name, value]) => logger.info(`  ${name}=${value}`));
+    logger.info(`Send a recording with: curl -X POST ${server.url}/control/events`);
+  });
+
+  process.on('SIGINT', () => {
+    server.stop().then(() => process.exit(0));
+  });
+  process.on('SIGTERM', () => {
+    server.stop().then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Manage API keys for the /api routes
+ * Run with: npm run api-keys -- <command>
+ *
+ * Commands:
+ *   create <name> <scope,scope,...>   Create a key; the key is only shown once
+ *   list                              List keys with their scopes and last use
+ *   revoke <id>                       Revoke a key
+ *
+ * Scopes: read-status, operate-connection, run-pipeline, write-clickup
+ */
+
+import { API_SCOPES, createApiKey, listApiKeys, revokeApiKey } from './services/apiKeyService';
+import { ApiScope } from './types';
+
+const usage = (): void => {
+  console.log('Usage:');
+  console.log('  npm run api-keys -- create <name> <scope,scope,...>');
+  console.log('  npm run api-keys -- list');
+  console.log('  npm run api-keys -- revoke <id>');
+  console.log(`Scopes: ${API_SCOPES.join(', ')}`);
+};
+
+const run = (): number => {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      const [name, scopes] = args;
+      if (!name || !scopes) {
+        usage();
+        return 1;
+      }
+
+      const { key, record } = createApiKey(
+        name,
+        scopes.split(',').map((scope) => scope.trim()) as ApiScope[]
+      );
+      console.log(
+        `Created API key ${record.id} (${record.name}) with scopes: ${record.scopes.join(', ')}`
+      );
+      console.log('Store this key now; it cannot be shown again:');
+      console.log(key);
+      return 0;
+    }
+
+    case 'list': {
+      const keys = listApiKeys();
+      if (keys.length === 0) {
+        console.log('No API keys');
+        return 0;
+      }
+      for (const key of keys) {
+        const state = key.revokedAt
+          ? `revoked ${key.revokedAt}`
+          : `last used ${key.lastUsedAt || 'never'}`;
+        console.log(
+          `${key.id}  ${key.prefix}...  ${key.name}  [${key.scopes.join(', ')}]  ${state}`
+        );
+      }
+      return 0;
+    }
+
+    case 'revoke': {
+      const [id] = args;
+      if (!id) {
+        usage();
+        return 1;
+      }
+
+      const key = revokeApiKey(id);
+      if (!key) {
+        console.error(`API key not found: ${id}`);
+        return 1;
+      }
+      console.log(`Revoked API key ${key.id} (${key.name})`);
+      return 0;
+    }
+
+    default:
+      usage();
+      return command ? 1 : 0;
+  }
+};
+
+try {
+  process.exit(run());
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
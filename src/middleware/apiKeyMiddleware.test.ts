@@ -0,0 +1,154 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import config from '../config/env';
+import { createApiKey, revokeApiKey } from '../services/apiKeyService';
+import { requireClickUpWriteScope, requireScope } from './apiKeyMiddleware';
+import { ApiScope, JobOptions } from '../types';
+
+const ok = (req: Request, res: Response) => {
+  res.json({ status: 'success', apiKey: res.locals.apiKey?.name });
+};
+
+let storedOptions: JobOptions | undefined;
+
+const app = express();
+app.use(express.json());
+app.get('/status', requireScope('read-status'), ok);
+app.post('/run', requireScope('run-pipeline'), requireClickUpWriteScope(), ok);
+app.post(
+  '/extract',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope({ requiresApply: true }),
+  ok
+);
+app.post(
+  '/replay',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope({ dryRunByDefault: true }),
+  ok
+);
+app.post(
+  '/retry',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope({ storedOptions: () => storedOptions }),
+  ok
+);
+
+const keyWith = (...scopes: ApiScope[]): string => createApiKey(scopes.join('+'), scopes).key;
+
+describe('API key scopes', () => {
+  const originalAuth = config.auth.enabled;
+  const originalDryRun = config.clickup.dryRun;
+  let pipelineKey: string;
+  let writerKey: string;
+
+  beforeAll(() => {
+    config.auth.enabled = true;
+    pipelineKey = keyWith('run-pipeline');
+    writerKey = keyWith('run-pipeline', 'write-clickup');
+  });
+
+  afterAll(() => {
+    config.auth.enabled = originalAuth;
+  });
+
+  beforeEach(() => {
+    config.clickup.dryRun = originalDryRun;
+    storedOptions = undefined;
+  });
+
+  describe('requireScope', () => {
+    it('rejects requests without a key', async () => {
+      const res = await request(app).get('/status');
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe('API key required');
+    });
+
+    it('rejects unknown and revoked keys', async () => {
+      const { key, record } = createApiKey('revoked', ['read-status']);
+      revokeApiKey(record.id);
+
+      await request(app).get('/status').set('X-API-Key', 'zmk_unknown').expect(401);
+      await request(app).get('/status').set('X-API-Key', key).expect(401);
+    });
+
+    it('rejects keys without the route scope', async () => {
+      const res = await request(app).get('/status').set('X-API-Key', pipelineKey);
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('API key lacks the read-status scope');
+    });
+
+    it('accepts a key with the scope as a header or bearer token', async () => {
+      const key = keyWith('read-status');
+
+      await request(app).get('/status').set('X-API-Key', key).expect(200);
+      const res = await request(app).get('/status').set('Authorization', `Bearer ${key}`);
+      expect(res.status).toBe(200);
+      expect(res.body.apiKey).toBe('read-status');
+    });
+  });
+
+  describe('requireClickUpWriteScope', () => {
+    it('lets dry runs and skipped ClickUp updates through with run-pipeline', async () => {
+      await request(app).post('/run?dryRun=true').set('X-API-Key', pipelineKey).expect(200);
+      await request(app)
+        .post('/run')
+        .set('X-API-Key', pipelineKey)
+        .send({ skipClickUp: true })
+        .expect(200);
+    });
+
+    it('requires write-clickup when the run writes to ClickUp', async () => {
+      const res = await request(app).post('/run?dryRun=false').set('X-API-Key', pipelineKey);
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('API key lacks the write-clickup scope');
+
+      await request(app).post('/run?dryRun=false').set('X-API-Key', writerKey).expect(200);
+    });
+
+    it('reads "1" and "0" like the handlers do', async () => {
+      await request(app).post('/extract?apply=1').set('X-API-Key', pipelineKey).expect(403);
+      await request(app).post('/extract?apply=0').set('X-API-Key', pipelineKey).expect(200);
+      await request(app).post('/extract').set('X-API-Key', pipelineKey).expect(200);
+    });
+
+    it('requires write-clickup for dryRun=0 when dry runs are the default', async () => {
+      config.clickup.dryRun = true;
+
+      await request(app).post('/run').set('X-API-Key', pipelineKey).expect(200);
+      await request(app).post('/run?dryRun=0').set('X-API-Key', pipelineKey).expect(403);
+      await request(app).post('/replay').set('X-API-Key', pipelineKey).expect(200);
+      await request(app)
+        .post('/replay')
+        .set('X-API-Key', pipelineKey)
+        .send({ dryRun: false })
+        .expect(403);
+    });
+
+    it('rejects values that are not booleans', async () => {
+      const res = await request(app).post('/run?dryRun=no').set('X-API-Key', pipelineKey);
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatch(/Invalid dryRun value "no"/);
+    });
+
+    it('rejects a query and body that disagree', async () => {
+      const res = await request(app)
+        .post('/run?dryRun=true')
+        .set('X-API-Key', pipelineKey)
+        .send({ dryRun: false });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatch(/Conflicting dryRun values/);
+    });
+
+    it('checks reruns against the stored options unless the request overrides them', async () => {
+      config.clickup.dryRun = true;
+      storedOptions = { dryRun: false };
+
+      await request(app).post('/retry').set('X-API-Key', pipelineKey).expect(403);
+      await request(app).post('/retry?dryRun=true').set('X-API-Key', pipelineKey).expect(200);
+
+      storedOptions = { skipClickUp: true };
+      await request(app).post('/retry').set('X-API-Key', pipelineKey).expect(200);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import config from '../config/env';
+import logger from '../config/logger';
+import { authenticateApiKey } from '../services/apiKeyService';
+import { cleanupFiles } from '../services/audioService';
+import { recordAudit } from '../services/auditLogService';
+import { ApiError, ApiKey, ApiScope, AuditEntry, JobOptions } from '../types';
+import { getBooleanParam } from '../utils/helpers';
+
+interface ClickUpWriteOptions {
+  // The route only writes to ClickUp when apply=true
+  requiresApply?: boolean;
+  // The route runs as a dry run unless dryRun=false
+  dryRunByDefault?: boolean;
+  // Options of the stored job the route reruns; the request's flags override them
+  storedOptions?: (req: Request) => JobOptions | undefined;
+}
+
+/**
+ * Get the key from an `Authorization: Bearer` or `X-API-Key` header
+ */
+const getPresentedKey = (req: Request): string | undefined => {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return (req.headers['x-api-key'] as string | undefined) || undefined;
+};
+
+/**
+ * Start the audit entry of a call; it is written once the response is sent
+ */
+const startAudit = (req: Request, res: Response, scopes: ApiScope[]): AuditEntry => {
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    scopes,
+    outcome: 'allowed',
+    ip: req.ip,
+  };
+  res.locals.audit = entry;
+  res.on('finish', () => recordAudit({ ...entry, statusCode: res.statusCode }));
+  return entry;
+};
+
+const deny = (
+  res: Response,
+  entry: AuditEntry,
+  outcome: 'unauthenticated' | 'forbidden',
+  error: string
+): void => {
+  entry.outcome = outcome;
+  res.status(outcome === 'unauthenticated' ? 401 : 403).json({ status: 'error', error });
+};
+
+/**
+ * Require an API key with a scope. Every call is recorded in the audit log.
+ * @param scope - Scope the key needs for this route
+ */
+export const requireScope = (scope: ApiScope): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const entry = startAudit(req, res, [scope]);
+
+    if (!config.auth.enabled) {
+      next();
+      return;
+    }
+
+    const presented = getPresentedKey(req);
+    const key = presented ? authenticateApiKey(presented) : undefined;
+    if (!key) {
+      logger.warn(
+        `Rejected ${req.method} ${entry.path}: ${presented ? 'invalid' : 'missing'} API key`
+      );
+      deny(res, entry, 'unauthenticated', presented ? 'Invalid API key' : 'API key required');
+      return;
+    }
+
+    entry.keyId = key.id;
+    entry.keyName = key.name;
+    res.locals.apiKey = key;
+
+    if (!key.scopes.includes(scope)) {
+      deny(res, entry, 'forbidden', `API key lacks the ${scope} scope`);
+      return;
+    }
+    next();
+  };
+};
+
+// An upload that is rejected is not processed, so don't keep it
+const cleanupUpload = (req: Request): void => {
+  if (req.file) {
+    cleanupFiles([req.file.path]);
+  }
+};
+
+/**
+ * Whether a request's options would let the pipeline write to ClickUp. The flags
+ * are read like the handlers read them, so the check and the run cannot disagree.
+ * @throws ApiError with status 400 for flags that are not booleans
+ */
+const writesToClickUp = (req: Request, options: ClickUpWriteOptions): boolean => {
+  const stored = options.storedOptions?.(req);
+  const skipClickUp = getBooleanParam(req, 'skipClickUp') ?? stored?.skipClickUp;
+  const dryRun = getBooleanParam(req, 'dryRun') ?? stored?.dryRun;
+  const apply = getBooleanParam(req, 'apply');
+
+  if (skipClickUp === true || dryRun === true) {
+    return false;
+  }
+  if (options.requiresApply && apply !== true) {
+    return false;
+  }
+  if (dryRun === false) {
+    return true;
+  }
+  return !options.dryRunByDefault && !config.clickup.dryRun;
+};
+
+/**
+ * Also require the write-clickup scope when the request would write to ClickUp.
+ * Goes after `requireScope` and any body parsing on the route.
+ * @param options - How the route decides whether it writes
+ */
+export const requireClickUpWriteScope = (options: ClickUpWriteOptions = {}): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const entry = res.locals.audit as AuditEntry;
+
+    let writes: boolean;
+    try {
+      writes = writesToClickUp(req, options);
+    } catch (err) {
+      cleanupUpload(req);
+      entry.outcome = 'invalid';
+      res.status(400).json({ status: 'error', error: (err as ApiError).message });
+      return;
+    }
+    if (!writes) {
+      next();
+      return;
+    }
+
+    entry.scopes = [...entry.scopes, 'write-clickup'];
+
+    const key = res.locals.apiKey as ApiKey | undefined;
+    if (config.auth.enabled && !key?.scopes.includes('write-clickup')) {
+      cleanupUpload(req);
+      deny(res, entry, 'forbidden', 'API key lacks the write-clickup scope');
+      return;
+    }
+    next();
+  };
+};
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import multer from 'multer';
+import { Request, Response, NextFunction } from 'express';
+import config from '../config/env';
+import logger from '../config/logger';
+
+// Uploads live next to the pipeline's other temporary files and are removed after processing
+const uploadDir = path.join(__dirname, '../../tmp/uploads');
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+// Accepted when the client does not send an audio/video content type
+const MEDIA_EXTENSIONS = [
+  '.mp3',
+  '.m4a',
+  '.wav',
+  '.ogg',
+  '.flac',
+  '.aac',
+  '.webm',
+  '.mp4',
+  '.mov',
+  '.mkv',
+];
+
+const isMediaFile = (file: Express.Multer.File): boolean =>
+  file.mimetype.startsWith('audio/') ||
+  file.mimetype.startsWith('video/') ||
+  MEDIA_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase());
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: uploadDir,
+    filename: (req, file, cb) => {
+      // Uploads arriving in the same millisecond must not overwrite each other
+      cb(null, `upload_${Date.now()}_${randomUUID()}${path.extname(file.originalname)}`);
+    },
+  }),
+  limits: { fileSize: config.uploads.maxSizeMb * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (isMediaFile(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Unsupported file type: ${file.mimetype}`));
+    }
+  },
+});
+
+/**
+ * Accept a single audio or video file in the "file" field.
+ * Rejected uploads are answered with 400 instead of reaching the error handler.
+ */
+export const uploadAudio = (req: Request, res: Response, next: NextFunction): void => {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err) {
+      const error = err as Error;
+      logger.warn('Rejected audio upload', { message: error.message });
+      res.status(400).json({ status: 'error', error: error.message });
+      return;
+    }
+    next();
+  });
+};
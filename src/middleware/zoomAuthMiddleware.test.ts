@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import config from '../config/env';
+import { verifyZoomWebhook } from './zoomAuthMiddleware';
+import { RawBodyRequest } from '../types';
+
+const app = express();
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
+app.post('/webhook/zoom', verifyZoomWebhook, (req, res) => {
+  res.json({ status: 'Event received' });
+});
+
+const sign = (token: string, timestamp: number, body: string): string =>
+  `v0=${crypto.createHmac('sha256', token).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+
+let eventCount = 0;
+
+/**
+ * Send a webhook signed with a token; each call sends a different event
+ */
+const sendWebhook = (token: string, timestamp = Math.floor(Date.now() / 1000)) => {
+  const body = JSON.stringify({
+    event: 'meeting.ended',
+    event_ts: Date.now() + eventCount++,
+    payload: { object: { id: 1, uuid: 'uuid', topic: 'Standup' } },
+  });
+  return request(app)
+    .post('/webhook/zoom')
+    .set('Content-Type', 'application/json')
+    .set('x-zm-request-timestamp', String(timestamp))
+    .set('x-zm-signature', sign(token, timestamp, body))
+    .send(body);
+};
+
+describe('verifyZoomWebhook', () => {
+  const originalSecrets = config.zoom.secretTokens;
+  const originalTokens = config.zoom.verificationTokens;
+
+  beforeEach(() => {
+    config.zoom.secretTokens = [{ name: 'current', token: 'current-secret' }];
+  });
+
+  afterAll(() => {
+    config.zoom.secretTokens = originalSecrets;
+    config.zoom.verificationTokens = originalTokens;
+  });
+
+  it('accepts a request signed over the raw body', async () => {
+    await sendWebhook('current-secret').expect(200);
+  });
+
+  it('rejects a wrong signature', async () => {
+    const res = await sendWebhook('other-secret');
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Invalid signature');
+  });
+
+  it('rejects a signature over a re-serialized body', async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = '{"event":"meeting.ended",  "event_ts":1}';
+    const res = await request(app)
+      .post('/webhook/zoom')
+      .set('Content-Type', 'application/json')
+      .set('x-zm-request-timestamp', String(timestamp))
+      .set('x-zm-signature', sign('current-secret', timestamp, JSON.stringify(JSON.parse(body))))
+      .send(body);
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects requests without the signature headers', async () => {
+    const res = await request(app).post('/webhook/zoom').send({ event: 'meeting.ended' });
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Missing required headers');
+  });
+
+  it('rejects timestamps outside the allowed window', async () => {
+    const stale = Math.floor(Date.now() / 1000) - config.zoom.webhookMaxSkewSeconds - 60;
+    const res = await sendWebhook('current-secret', stale);
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Request timestamp outside the allowed window');
+  });
+
+  it('rejects a replayed request', async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({ event: 'meeting.ended', event_ts: 42, payload: {} });
+    const send = () =>
+      request(app)
+        .post('/webhook/zoom')
+        .set('Content-Type', 'application/json')
+        .set('x-zm-request-timestamp', String(timestamp))
+        .set('x-zm-signature', sign('current-secret', timestamp, body))
+        .send(body);
+
+    await send().expect(200);
+    const res = await send();
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Signature already used');
+  });
+
+  it('accepts every active secret while one is rotated out', async () => {
+    config.zoom.secretTokens = [
+      { name: 'next', token: 'next-secret' },
+      { name: 'current', token: 'current-secret', notAfter: '2999-01-01T00:00:00Z' },
+    ];
+
+    await sendWebhook('next-secret').expect(200);
+    await sendWebhook('current-secret').expect(200);
+  });
+
+  it('rejects secrets past their not-after date', async () => {
+    config.zoom.secretTokens = [
+      { name: 'next', token: 'next-secret' },
+      { name: 'retired', token: 'current-secret', notAfter: '2000-01-01T00:00:00Z' },
+    ];
+
+    await sendWebhook('current-secret').expect(401);
+  });
+
+  it('answers URL validation with the verification token that signed it', async () => {
+    config.zoom.verificationTokens = [
+      { name: 'next', token: 'next-token' },
+      { name: 'current', token: 'current-token' },
+    ];
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      event: 'endpoint.url_validation',
+      payload: { plainToken: 'plain' },
+    });
+
+    const res = await request(app)
+      .post('/webhook/zoom')
+      .set('Content-Type', 'application/json')
+      .set('x-zm-request-timestamp', String(timestamp))
+      .set('x-zm-signature', sign('current-token', timestamp, body))
+      .send(body);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      plainToken: 'plain',
+      encryptedToken: crypto.createHmac('sha256', 'current-token').update('plain').digest('hex'),
+    });
+  });
+});
@@ -1,8 +1,86 @@
 import { Request, Response, NextFunction } from 'express';
-import crypto from 'crypto';
 import config from '../config/env';
 import logger from '../config/logger';
+import {
+  createValidationResponse,
+  findSigningSecret,
+  getActiveSecrets,
+  getSignedMessage,
+} from '../utils/webhookSecrets';
+import { RawBodyRequest, ZoomWebhookSecret } from '../types';
 
+// Signatures accepted within the skew window, with when they can be forgotten
+const seenSignatures = new Map<string, number>();
+
+/**
+ * Forget signatures old enough that their timestamp is rejected anyway
+ */
+const pruneSignatures = (now: number): void => {
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  }
+};
+
+/**
+ * Parse x-zm-request-timestamp, sent in seconds (milliseconds are accepted too)
+ * @returns Timestamp in milliseconds, or null when it is not a number
+ */
+const parseTimestamp = (header: string): number | null => {
+  const value = Number(header);
+  if (!Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  return value < 1e12 ? value * 1000 : value;
+};
+
+/**
+ * Verify a webhook's signature over the raw request body against every active
+ * secret, the age of its timestamp and that the signature was not already used
+ * @returns The secret that signed the request, or why the request is rejected
+ */
+const checkSignature = (req: RawBodyRequest): { secret: ZoomWebhookSecret } | { error: string } => {
+  const timestampHeader = req.headers['x-zm-request-timestamp'] as string | undefined;
+  const signatureHeader = req.headers['x-zm-signature'] as string | undefined;
+  const message = getSignedMessage(req);
+
+  if (!timestampHeader || !signatureHeader) {
+    return { error: 'Missing required headers' };
+  }
+  const secrets = getActiveSecrets(config.zoom.secretTokens);
+  if (secrets.length === 0) {
+    return { error: 'No active webhook secret token configured' };
+  }
+  if (!message) {
+    return { error: 'Missing request body' };
+  }
+
+  const now = Date.now();
+  const maxSkewMs = config.zoom.webhookMaxSkewSeconds * 1000;
+  const timestamp = parseTimestamp(timestampHeader);
+  if (timestamp === null || Math.abs(now - timestamp) > maxSkewMs) {
+    return { error: 'Request timestamp outside the allowed window' };
+  }
+
+  const secret = findSigningSecret(secrets, message, signatureHeader);
+  if (!secret) {
+    return { error: 'Invalid signature' };
+  }
+
+  // A valid signature seen before within the window is a replayed request
+  pruneSignatures(now);
+  if (seenSignatures.has(signatureHeader)) {
+    return { error: 'Signature already used' };
+  }
+  seenSignatures.set(signatureHeader, timestamp + maxSkewMs);
+  return { secret };
+};
+
+/**
+ * Verify Zoom webhook requests. URL validation requests are answered directly;
+ * other events need a valid, recent and unused signature.
+ */
 export const verifyZoomWebhook = (req: Request, res: Response, next: NextFunction): void => {
   try {
     logger.info('Received Zoom webhook request', { 
@@ -13,17 +91,14 @@ export const verifyZoomWebhook = (req: Request, res: Response, next: NextFunctio
     
     // Check for URL validation event
     if (req.body && req.body.event === 'endpoint.url_validation') {
-      logger.info('Processing Zoom URL validation', { payload: req.body.payload });
+      logger.info('Processing Zoom URL validation');
       
-      const plainToken = req.body.payload.plainToken;
-      const hashAlgorithm = crypto.createHmac('sha256', config.zoom.verificationToken);
-      const encryptedToken = hashAlgorithm.update(plainToken).digest('hex');
+      const { plainToken, encryptedToken, tokenName } = createValidationResponse(
+        req,
+        config.zoom.verificationTokens
+      );
       
-      logger.info('Generated validation response', { 
-        plainToken, 
-        verificationTokenPrefix: config.zoom.verificationToken.substring(0, 5) + '...',
-        encryptedToken 
-      });
+      logger.info('Generated validation response', { verificationToken: tokenName });
       
       // Send response for validation
       res.status(200).json({
@@ -34,43 +109,29 @@ export const verifyZoomWebhook = (req: Request, res: Response, next: NextFunctio
       return;
     }
     
-    // Log debug info for regular events
-    logger.info('Webhook details', {
-      secretTokenPrefix: config.zoom.secretToken.substring(0, 5) + '...',
-      timestamp: req.headers['x-zm-request-timestamp'],
-      signatureHeader: req.headers['x-zm-signature']
-    });
-    
-    // Skip signature verification during development if needed
+    // The bypass is for local development only and never honoured in production
     if (process.env.BYPASS_ZOOM_VERIFICATION === 'true') {
-      logger.warn('Bypassing Zoom signature verification (not secure for production)');
-      next();
-      return;
-    }
-    
-    // For regular events, verify signature
-    if (!req.headers['x-zm-request-timestamp'] || !req.headers['x-zm-signature']) {
-      logger.warn('Missing Zoom webhook headers');
-      res.status(401).json({ error: 'Missing required headers' });
-      return;
+      if (config.nodeEnv === 'production') {
+        logger.error('BYPASS_ZOOM_VERIFICATION is ignored in production');
+      } else {
+        logger.warn('Bypassing Zoom signature verification (not secure for production)');
+        next();
+        return;
+      }
     }
     
-    const message = `v0:${req.headers['x-zm-request-timestamp']}:${JSON.stringify(req.body)}`;
-    const hashForVerify = crypto.createHmac('sha256', config.zoom.secretToken)
-      .update(message)
-      .digest('hex');
-    const signature = `v0=${hashForVerify}`;
-    
-    if (req.headers['x-zm-signature'] !== signature) {
-      logger.warn('Invalid Zoom webhook signature', {
-        expected: signature,
-        received: req.headers['x-zm-signature']
+    const result = checkSignature(req);
+    if ('error' in result) {
+      logger.warn(`Rejected Zoom webhook: ${result.error}`, {
+        event: req.body?.event,
+        timestamp: req.headers['x-zm-request-timestamp'],
       });
-      res.status(401).json({ error: 'Invalid signature' });
+      res.status(401).json({ error: result.error });
       return;
     }
     
-    logger.info(`Received valid Zoom webhook: ${req.body.event}`);
+    // The matching secret shows when an old secret is no longer in use and can be retired
+    logger.info(`Received valid Zoom webhook: ${req.body.event}`, { secret: result.secret.name });
     next();
   } catch (error) {
     logger.error('Error verifying Zoom webhook', { error });
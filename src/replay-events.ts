@@ -0,0 +1,83 @@
+/**
+ * Replay archived Zoom events against a running server
+ * Run with: npm run replay -- [options]
+ *
+ * Options:
+ *   --file <path>      Event archive to read (default: EVENT_ARCHIVE_PATH); also accepts
+ *                      the quarantine file (EVENT_QUARANTINE_PATH)
+ *   --type <pattern>   Only replay matching events; repeatable ("recording.*")
+ *   --from <date>      Only events received at or after this time
+ *   --to <date>        Only events received at or before this time
+ *   --limit <n>        Replay at most n events
+ *   --timing <mode>    "fast" (default) or "original" to keep the gaps between events
+ *   --speed <x>        Speed multiplier for original timing
+ *   --apply            Write to ClickUp instead of a dry run
+ *   --skip-clickup     Skip the ClickUp stage altogether
+ *   --url <url>        Server to replay against (default: http://localhost:PORT)
+ *   --api-key <key>    API key with the run-pipeline scope, plus write-clickup
+ *                      with --apply (default: API_KEY)
+ */
+
+import axios from 'axios';
+import config from './config/env';
+import logger from './config/logger';
+import { readArchivedEvents } from './services/eventArchiveService';
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string[]> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '');
+    const value = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+    (args[name] = args[name] || []).push(value);
+  }
+  return args;
+};
+
+async function replayEvents() {
+  const args = parseArgs(process.argv.slice(2));
+  const file = args.file?.[0] || config.archive.path;
+  const url = args.url?.[0] || `http://localhost:${config.port}`;
+  const apiKey = args['api-key']?.[0] || process.env.API_KEY;
+
+  const events = await readArchivedEvents(
+    {
+      eventTypes: args.type,
+      from: args.from ? new Date(args.from[0]) : undefined,
+      to: args.to ? new Date(args.to[0]) : undefined,
+      limit: args.limit ? parseInt(args.limit[0], 10) : undefined,
+    },
+    file
+  );
+
+  if (events.length === 0) {
+    logger.warn(`No matching events in ${file}`);
+    return;
+  }
+
+  logger.info(`Replaying ${events.length} events from ${file} against ${url}`);
+
+  const response = await axios.post(
+    `${url}/api/replay`,
+    {
+      events,
+      timing: args.timing?.[0] || 'fast',
+      ...(args.speed && { speed: parseFloat(args.speed[0]) }),
+      eventTypes: args.type,
+      dryRun: !args.apply,
+      skipClickUp: Boolean(args['skip-clickup']),
+    },
+    { headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {} }
+  );
+
+  const run = response.data.data;
+  logger.info(`Replay ${run.id} started`, { total: run.total, timing: run.timing });
+  logger.info(`Follow its progress at ${url}/api/replay/${run.id}`);
+}
+
+replayEvents().catch((error) => {
+  logger.error('Replay failed', {
+    message: error.message,
+    response: error.response?.data,
+  });
+  process.exit(1);
+});
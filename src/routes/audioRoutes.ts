@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { processAudio } from '../controllers/audioController';
+import { uploadAudio } from '../middleware/uploadMiddleware';
+import { requireClickUpWriteScope, requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Run an uploaded recording through the pipeline
+router.post(
+  '/process-audio',
+  requireScope('run-pipeline'),
+  uploadAudio,
+  requireClickUpWriteScope(),
+  processAudio
+);
+
+export default router;
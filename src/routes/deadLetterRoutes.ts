@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  listDeadLetterItems,
+  getDeadLetterItem,
+  getDeadLetterJobOptions,
+  retryDeadLetter,
+} from '../controllers/deadLetterController';
+import { requireClickUpWriteScope, requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Recordings that failed for good
+router.get('/', requireScope('read-status'), listDeadLetterItems);
+router.get('/:id', requireScope('read-status'), getDeadLetterItem);
+
+// Send a failed recording back to the job queue
+router.post(
+  '/:id/retry',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope({ storedOptions: getDeadLetterJobOptions }),
+  retryDeadLetter
+);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import bodyParser from 'body-parser';
+import { extractFromTranscript } from '../controllers/extractController';
+import { requireClickUpWriteScope, requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Raw transcripts can be posted as text; JSON bodies are parsed by the app
+const rawTranscript = bodyParser.text({
+  type: ['text/plain', 'text/vtt', 'application/x-subrip'],
+  limit: '10mb',
+});
+
+// Run extraction on an existing transcript, skipping audio processing
+router.post(
+  '/',
+  requireScope('run-pipeline'),
+  rawTranscript,
+  requireClickUpWriteScope({ requiresApply: true }),
+  extractFromTranscript
+);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { listJobs, getJob } from '../controllers/jobController';
+import { requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Job history, filterable by meeting, status and date
+router.get('/', requireScope('read-status'), listJobs);
+
+// Single job with its pipeline run report
+router.get('/:id', requireScope('read-status'), getJob);
+
+export default router;
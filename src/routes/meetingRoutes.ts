@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { listMeetings, reprocessMeeting } from '../controllers/meetingController';
+import { requireClickUpWriteScope, requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Meetings recorded from meeting.ended events
+router.get('/', requireScope('read-status'), listMeetings);
+
+// Run an existing meeting's cloud recordings through the pipeline again
+router.post(
+  '/:meetingId/reprocess',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope(),
+  reprocessMeeting
+);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  startEventReplay,
+  listEventReplays,
+  getEventReplay,
+  cancelEventReplay,
+} from '../controllers/replayController';
+import { requireClickUpWriteScope, requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Feed archived Zoom events back through the event handlers
+router.post(
+  '/',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope({ dryRunByDefault: true }),
+  startEventReplay
+);
+router.get('/', requireScope('read-status'), listEventReplays);
+router.get('/:id', requireScope('read-status'), getEventReplay);
+router.post('/:id/cancel', requireScope('run-pipeline'), cancelEventReplay);
+
+export default router;
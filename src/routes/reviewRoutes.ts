@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  listReviews,
+  getReview,
+  editReview,
+  approveReview,
+  rejectReview,
+  getReviewItemOptions,
+} from '../controllers/reviewController';
+import { requireClickUpWriteScope, requireScope } from '../middleware/apiKeyMiddleware';
+
+const router = Router();
+
+// Extracted items waiting for (or past) human review
+router.get('/', requireScope('read-status'), listReviews);
+router.get('/:id', requireScope('read-status'), getReview);
+
+// Reviewer decisions
+router.patch('/:id', requireScope('run-pipeline'), editReview);
+router.post(
+  '/:id/approve',
+  requireScope('run-pipeline'),
+  requireClickUpWriteScope({ storedOptions: getReviewItemOptions }),
+  approveReview
+);
+router.post('/:id/reject', requireScope('run-pipeline'), rejectReview);
+
+export default router;
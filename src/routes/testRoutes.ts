@@ -1,37 +1,34 @@
 import { Router } from 'express';
-import { testGoogleDriveAudio } from '../controllers/testController';
-import zoomWebSocketService from '../services/zoomWebSocketService';
+import zoomConnectionPool from '../services/zoomConnectionPool';
+import { requireScope } from '../middleware/apiKeyMiddleware';
 import logger from '../config/logger';
 
 const router = Router();
 
-// Test audio processing
-router.post('/test-audio', testGoogleDriveAudio);
-
 // Test WebSocket connection
-router.get('/test-ws', (req, res) => {
-  const isConnected = zoomWebSocketService.isConnected();
+router.get('/test-ws', requireScope('read-status'), (req, res) => {
+  const isConnected = zoomConnectionPool.isConnected();
   
   res.json({
     status: isConnected ? 'connected' : 'disconnected',
     message: isConnected 
       ? 'WebSocket connection to Zoom is active' 
-      : 'WebSocket is not connected to Zoom'
+      : 'WebSocket is not connected to Zoom',
+    connections: zoomConnectionPool
+      .getStatus()
+      .map(({ subscription, state }) => ({ subscription, state })),
   });
 });
 
 // Force WebSocket reconnection (for testing)
-router.post('/force-reconnect', async (req, res) => {
+router.post('/force-reconnect', requireScope('operate-connection'), async (req, res) => {
   try {
     logger.info('Forcing WebSocket reconnection');
     
-    // Close existing connection
-    zoomWebSocketService.close();
-    
-    // Initialize new connection
-    await zoomWebSocketService.initialize();
+    // Close existing connections and open new ones
+    await zoomConnectionPool.reconnect();
     
-    const isConnected = zoomWebSocketService.isConnected();
+    const isConnected = zoomConnectionPool.isConnected();
     
     res.json({
       status: 'success',
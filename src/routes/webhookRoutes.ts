@@ -1,6 +1,6 @@
 import express from 'express';
-import crypto from 'crypto';
 import { handleZoomWebhook } from '../controllers/webhookController';
+import { handleZoomValidation } from '../controllers/zoomValidationController';
 import { verifyZoomWebhook } from '../middleware/zoomAuthMiddleware';
 import logger from '../config/logger';
 
@@ -9,21 +9,7 @@ const router = express.Router();
 // Route for Zoom webhook URL validation during app setup
 router.post('/zoom/validate', function(req, res) {
   logger.info('Received validation request to /webhook/zoom/validate');
-  // Process the validation directly
-  try {
-    const plainToken = req.body.payload.plainToken;
-    const verificationToken = process.env.ZOOM_VERIFICATION_TOKEN || '';
-    const hashAlgorithm = crypto.createHmac('sha256', verificationToken);
-    const encryptedToken = hashAlgorithm.update(plainToken).digest('hex');
-    
-    res.status(200).json({
-      plainToken,
-      encryptedToken
-    });
-  } catch (error) {
-    logger.error('Error in validate endpoint', { error });
-    res.status(500).json({ error: 'Validation processing failed' });
-  }
+  handleZoomValidation(req, res);
 });
 
 // Add a GET handler for documentation
@@ -45,36 +31,4 @@ router.post('/zoom', verifyZoomWebhook, function(req, res) {
   });
 });
 
-// Add a route specifically for URL validation without middleware
-router.post('/zoom/direct', function(req, res) {
-  logger.info('Received direct webhook request', { body: req.body });
-  
-  // Handle Zoom URL validation
-  if (req.body && req.body.event === 'endpoint.url_validation') {
-    try {
-      const plainToken = req.body.payload.plainToken;
-      const verificationToken = process.env.ZOOM_VERIFICATION_TOKEN || '';
-      logger.info('Using verification token', { tokenPrefix: verificationToken.substring(0, 5) + '...' });
-      
-      const hashAlgorithm = crypto.createHmac('sha256', verificationToken);
-      const encryptedToken = hashAlgorithm.update(plainToken).digest('hex');
-      
-      logger.info('Generating validation response', { plainToken, encryptedToken });
-      
-      res.status(200).json({
-        plainToken,
-        encryptedToken
-      });
-      return;
-    } catch (error) {
-      logger.error('Error in direct validation', { error });
-      res.status(500).json({ error: 'Validation processing failed' });
-      return;
-    }
-  }
-  
-  // For other events, just acknowledge
-  res.status(200).json({ status: 'Event received directly' });
-});
-
 export default router;
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for the Zoom events we consume. The Zoom types in `types` are
+ * derived from these, so what is validated and what the code expects cannot drift.
+ * Objects keep fields they don't declare: Zoom adds fields over time and the n8n
+ * forwarding passes events on as received.
+ */
+
+// Transports Zoom events arrive on
+export const zoomEventSourceSchema = z.enum(['websocket', 'webhook']);
+
+// Zoom sends meeting IDs as numbers; they are handled as strings
+const meetingId = z.union([z.string().min(1), z.number()]).transform(String);
+
+export const zoomRecordingFileSchema = z
+  .object({
+    id: z.string().min(1),
+    meeting_id: z.string().optional(),
+    file_type: z.string().min(1),
+    file_extension: z.string().optional(),
+    file_size: z.number().optional(),
+    recording_type: z.string().optional(),
+    recording_start: z.string().optional(),
+    recording_end: z.string().optional(),
+    status: z.string().optional(),
+    download_url: z.string().url(),
+    play_url: z.string().optional(),
+  })
+  .passthrough();
+
+export const zoomMeetingSchema = z
+  .object({
+    id: meetingId,
+    uuid: z.string().min(1),
+    topic: z.string(),
+    account_id: z.string().optional(),
+    host_id: z.string().optional(),
+    host_email: z.string().optional(),
+    start_time: z.string().optional(),
+    timezone: z.string().optional(),
+    duration: z.number().optional(),
+    total_size: z.number().optional(),
+    recording_count: z.number().optional(),
+    share_url: z.string().optional(),
+    recording_files: z.array(zoomRecordingFileSchema).optional(),
+    download_token: z.string().optional(),
+  })
+  .passthrough();
+
+export const zoomMeetingInstanceSchema = z
+  .object({
+    id: meetingId,
+    uuid: z.string().min(1),
+    topic: z.string(),
+    host_id: z.string().optional(),
+    start_time: z.string().optional(),
+    end_time: z.string().optional(),
+    duration: z.number().optional(),
+    timezone: z.string().optional(),
+  })
+  .passthrough();
+
+// Fields every Zoom event has; event types without a schema of their own are checked against this
+export const zoomEventEnvelopeSchema = z
+  .object({
+    event: z.string().min(1),
+    event_ts: z.number().int().positive(),
+    payload: z
+      .object({
+        account_id: z.string().optional(),
+        object: z.record(z.string(), z.unknown()).optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+// Recording events carry the recording files to download
+const recordingPayloadSchema = z
+  .object({
+    account_id: z.string().optional(),
+    object: zoomMeetingSchema.extend({ recording_files: z.array(zoomRecordingFileSchema) }),
+  })
+  .passthrough();
+
+export const recordingCompletedEventSchema = zoomEventEnvelopeSchema.extend({
+  event: z.literal('recording.completed'),
+  download_token: z.string().optional(),
+  payload: recordingPayloadSchema,
+});
+
+export const recordingTranscriptCompletedEventSchema = zoomEventEnvelopeSchema.extend({
+  event: z.literal('recording.transcript_completed'),
+  download_token: z.string().optional(),
+  payload: recordingPayloadSchema,
+});
+
+export const recordingRemovedEventSchema = zoomEventEnvelopeSchema.extend({
+  event: z.enum(['recording.deleted', 'recording.trashed', 'recording.recovered']),
+  payload: z
+    .object({
+      account_id: z.string().optional(),
+      operator: z.string().optional(),
+      object: zoomMeetingSchema,
+    })
+    .passthrough(),
+});
+
+export const meetingLifecycleEventSchema = zoomEventEnvelopeSchema.extend({
+  event: z.enum(['meeting.started', 'meeting.ended']),
+  payload: z
+    .object({
+      account_id: z.string().optional(),
+      object: zoomMeetingInstanceSchema,
+    })
+    .passthrough(),
+});
+
+export const endpointUrlValidationEventSchema = zoomEventEnvelopeSchema.extend({
+  event: z.literal('endpoint.url_validation'),
+  payload: z.object({ plainToken: z.string().min(1) }).passthrough(),
+});
+
+const schemasByEventType = new Map<string, z.ZodTypeAny>([
+  ['recording.completed', recordingCompletedEventSchema],
+  ['recording.transcript_completed', recordingTranscriptCompletedEventSchema],
+  ...recordingRemovedEventSchema.shape.event.options.map(
+    (type) => [type, recordingRemovedEventSchema] as [string, z.ZodTypeAny]
+  ),
+  ...meetingLifecycleEventSchema.shape.event.options.map(
+    (type) => [type, meetingLifecycleEventSchema] as [string, z.ZodTypeAny]
+  ),
+  ['endpoint.url_validation', endpointUrlValidationEventSchema],
+]);
+
+/**
+ * Validate a Zoom event against the schema for its type
+ * @param event - Event with its type in `event`
+ * @returns The parsed event, or the problems found, each prefixed with its path
+ */
+export const validateZoomEvent = (
+  event: { event: string } & Record<string, unknown>
+): { success: true; data: Record<string, unknown> } | { success: false; issues: string[] } => {
+  const schema = schemasByEventType.get(event.event) || zoomEventEnvelopeSchema;
+  const result = schema.safeParse(event);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(
+      (issue) => `${issue.path.length ? issue.path.join('.') : '(event)'}: ${issue.message}`
+    ),
+  };
+};
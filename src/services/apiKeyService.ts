@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import crypto, { randomUUID } from 'crypto';
+import config from '../config/env';
+import logger from '../config/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { safeEqual } from '../utils/webhookSecrets';
+import { ApiKey, ApiScope } from '../types';
+
+export const API_SCOPES: ApiScope[] = [
+  'read-status',
+  'operate-connection',
+  'run-pipeline',
+  'write-clickup',
+];
+
+const KEY_PREFIX = 'zmk_';
+
+// How often the last-used time of a key is written back
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const storePath = path.join(config.storage.dataDir, 'api-keys.json');
+const store = new JsonFileStore<ApiKey>(storePath);
+let loadedMtimeMs = 0;
+
+const hashKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Pick up keys created or revoked by the key management CLI since the last check
+ */
+const refresh = (): void => {
+  try {
+    const { mtimeMs } = fs.statSync(storePath);
+    if (mtimeMs !== loadedMtimeMs) {
+      store.reload();
+      loadedMtimeMs = mtimeMs;
+    }
+  } catch {
+    // No key file yet
+  }
+};
+
+/**
+ * Create an API key. The plain key is only returned here; just its hash is stored.
+ * @param name - Who or what the key is for
+ * @param scopes - Scopes granted to the key
+ * @returns The plain key and the stored record
+ */
+export const createApiKey = (name: string, scopes: ApiScope[]): { key: string; record: ApiKey } => {
+  const unknown = scopes.filter((scope) => !API_SCOPES.includes(scope));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scopes: ${unknown.join(', ')}. Use: ${API_SCOPES.join(', ')}`);
+  }
+  if (scopes.length === 0) {
+    throw new Error('An API key needs at least one scope');
+  }
+
+  refresh();
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const record = store.upsert({
+    id: randomUUID(),
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    hash: hashKey(key),
+    scopes,
+    createdAt: new Date().toISOString(),
+  });
+
+  logger.info(`API key created: ${name}`, { keyId: record.id, scopes });
+  return { key, record };
+};
+
+/**
+ * List API keys, newest first
+ */
+export const listApiKeys = (): ApiKey[] => {
+  refresh();
+  return store.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Revoke an API key; it is kept for the audit trail
+ * @param id - Key ID
+ * @returns The revoked key, or undefined when it does not exist
+ */
+export const revokeApiKey = (id: string): ApiKey | undefined => {
+  refresh();
+  const record = store.get(id);
+  if (!record) {
+    return undefined;
+  }
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    store.upsert(record);
+    logger.info(`API key revoked: ${record.name}`, { keyId: id });
+  }
+  return record;
+};
+
+/**
+ * Find the active key matching a presented key
+ * @param key - Key from the request
+ * @returns The key record, or undefined when the key is unknown or revoked
+ */
+export const authenticateApiKey = (key: string): ApiKey | undefined => {
+  refresh();
+  const hash = hashKey(key);
+  const record = store.list().find((candidate) => safeEqual(candidate.hash, hash));
+  if (!record || record.revokedAt) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    record.lastUsedAt = new Date(now).toISOString();
+    store.upsert(record);
+    loadedMtimeMs = fs.statSync(storePath).mtimeMs;
+  }
+  return record;
+};
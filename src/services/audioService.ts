@@ -5,6 +5,7 @@ import { spawn } from 'child_process';
 import axios, { AxiosRequestConfig } from 'axios';
 import logger from '../config/logger';
 import { AudioProcessingResult, ApiError } from '../types';
+import { wrapError } from '../utils/errors';
 
 const exec = promisify(require('child_process').exec);
 const writeFile = promisify(fs.writeFile);
@@ -63,7 +64,7 @@ export const downloadFile = async (url: string, downloadToken?: string): Promise
       message: error.message, 
       stack: error.stack 
     });
-    throw new Error(`Failed to download file: ${error.message}`);
+    throw wrapError(`Failed to download file: ${error.message}`, error);
   }
 };
 
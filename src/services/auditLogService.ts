@@ -0,0 +1,28 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config/env';
+import logger from '../config/logger';
+import { AuditEntry } from '../types';
+
+let directoryReady = false;
+
+/**
+ * Record a call to a protected route in the audit log (NDJSON) and the application log
+ * @param entry - Who called what, and whether it was allowed
+ */
+export const recordAudit = (entry: AuditEntry): void => {
+  logger.info(`Audit: ${entry.method} ${entry.path} ${entry.outcome}`, {
+    keyId: entry.keyId,
+    keyName: entry.keyName,
+    statusCode: entry.statusCode,
+  });
+
+  if (!directoryReady) {
+    fs.mkdirSync(path.dirname(config.auth.auditLogPath), { recursive: true });
+    directoryReady = true;
+  }
+
+  fs.promises.appendFile(config.auth.auditLogPath, JSON.stringify(entry) + '\n').catch((error) => {
+    logger.error('Failed to write audit log entry', { message: (error as Error).message });
+  });
+};
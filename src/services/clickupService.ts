@@ -9,10 +9,14 @@ import {
   ClickUpList, 
   ClickUpTask, 
   ChecklistItem,
+  ClickUpAction,
+  ClickUpTaskUpdate,
+  ClickUpUpdateResult,
+  ClickUpWriteOptions,
   ApiError
 } from '../types';
 
-const CLICKUP_API_URL = 'https://api.clickup.com/api/v2';
+const CLICKUP_API_URL = config.clickup.apiUrl;
 const API_KEY = config.clickup.apiKey;
 
 /**
@@ -261,9 +265,13 @@ export const createList = async (spaceId: string, name: string): Promise<string>
 /**
  * Get or create a list in a space
  * @param spaceId - The ClickUp space ID
+ * @param actions - Optional log that records the list creation
  * @returns ID of an existing or newly created list
  */
-export const getOrCreateList = async (spaceId: string): Promise<string> => {
+export const getOrCreateList = async (
+  spaceId: string,
+  actions?: ClickUpAction[]
+): Promise<string> => {
   try {
     const lists = await getLists(spaceId);
     
@@ -276,7 +284,15 @@ export const getOrCreateList = async (spaceId: string): Promise<string> => {
     
     // No lists found, create one
     logger.info(`No lists found in space ${spaceId}, creating new list`);
-    return await createList(spaceId, "Characters");
+    const listId = await createList(spaceId, 'Characters');
+    actions?.push({
+      type: 'create_list',
+      spaceId,
+      listId,
+      name: 'Characters',
+      description: `Created list "Characters" in space ${spaceId}`,
+    });
+    return listId;
   } catch (err: unknown) {
     const error = err as ApiError;
     logger.error('Error getting or creating list', { message: error.message });
@@ -565,10 +581,18 @@ export const generateChecklistItems = (taskType: string): ChecklistItem[] => {
 /**
  * Update ClickUp task from extracted information
  * @param info - The extracted information
+ * @param options - Set `dryRun` to resolve everything read-only and return the planned writes
+ * @returns The task that was updated and every write made (or planned) in ClickUp
  */
-export const updateClickUpTask = async (info: ExtractedInfo): Promise<void> => {
+export const updateClickUpTask = async (
+  info: ExtractedInfo,
+  options: ClickUpWriteOptions = {}
+): Promise<ClickUpTaskUpdate> => {
+  const dryRun = options.dryRun ?? config.clickup.dryRun;
+  const actions: ClickUpAction[] = [];
+
   try {
-    logger.info(`Updating ClickUp for character ${info.character}`);
+    logger.info(`${dryRun ? 'Planning' : 'Updating'} ClickUp for character ${info.character}`);
     
     // Get the first team
     const teams = await getTeams();
@@ -586,25 +610,56 @@ export const updateClickUpTask = async (info: ExtractedInfo): Promise<void> => {
     }
     
     // Find a relevant space or use the first one
-    let spaceId = spaces[0].id;
-    for (const space of spaces) {
-      if (space.name.toLowerCase().includes('character') || 
-          space.name.toLowerCase().includes('personaje')) {
-        spaceId = space.id;
-        logger.info(`Found relevant space: ${space.name}`);
+    let space = spaces[0];
+    for (const candidate of spaces) {
+      if (
+        candidate.name.toLowerCase().includes('character') ||
+        candidate.name.toLowerCase().includes('personaje')
+      ) {
+        space = candidate;
+        logger.info(`Found relevant space: ${candidate.name}`);
         break;
       }
     }
+    const spaceId = space.id;
     
     // Find task for the character
     let taskId = await findTaskForCharacter(spaceId, info.character);
+    const taskName = `${info.character} character`;
     
     // If not found, try to create a new task
-    if (!taskId) {
+    if (!taskId && dryRun) {
+      const lists = await getLists(spaceId);
+      const list = lists[0];
+
+      if (!list) {
+        actions.push({
+          type: 'create_list',
+          spaceId,
+          name: 'Characters',
+          dryRun,
+          description: `Would create list "Characters" in space ${space.name}`,
+        });
+      }
+      actions.push({
+        type: 'create_task',
+        listId: list?.id,
+        name: taskName,
+        dryRun,
+        description: `Would create task "${taskName}" in list ${list ? `${list.name} (${list.id})` : '"Characters"'}`,
+      });
+    } else if (!taskId) {
       logger.info(`No existing task found for ${info.character}, creating new task`);
       try {
-        const listId = await getOrCreateList(spaceId);
+        const listId = await getOrCreateList(spaceId, actions);
         taskId = await createTask(listId, info.character);
+        actions.push({
+          type: 'create_task',
+          listId,
+          taskId,
+          name: taskName,
+          description: `Created task "${taskName}" in list ${listId}`,
+        });
       } catch (err: unknown) {
         const error = err as ApiError;
         logger.error(`Failed to create task for ${info.character}`, { message: error.message });
@@ -612,19 +667,157 @@ export const updateClickUpTask = async (info: ExtractedInfo): Promise<void> => {
       }
     }
     
+    const taskLabel = taskId ? `task ${taskId}` : `new task "${taskName}"`;
+
     // Add comment to task
     const commentText = `Update from Zoom meeting: ${info.task} required for character ${info.character}. ${info.context ? `Context: ${info.context}` : ''}`;
-    await addComment(taskId, commentText);
+    if (!dryRun) {
+      await addComment(taskId!, commentText);
+    }
+    actions.push({
+      type: 'add_comment',
+      taskId: taskId || undefined,
+      text: commentText,
+      ...(dryRun && { dryRun }),
+      description: `${dryRun ? 'Would add' : 'Added'} comment to ${taskLabel}`,
+    });
     
     // Create checklist
     const checklistName = `${info.task} for ${info.character}`;
     const checklistItems = generateChecklistItems(info.task);
-    await createChecklist(taskId, checklistName, checklistItems);
+    if (!dryRun) {
+      await createChecklist(taskId!, checklistName, checklistItems);
+    }
+    actions.push({
+      type: 'create_checklist',
+      taskId: taskId || undefined,
+      name: checklistName,
+      items: checklistItems,
+      ...(dryRun && { dryRun }),
+      description: `${dryRun ? 'Would add' : 'Added'} checklist "${checklistName}" to ${taskLabel} with items [${checklistItems.map((item) => item.name).join(', ')}]`,
+    });
     
-    logger.info(`ClickUp task ${taskId} updated successfully`);
+    if (dryRun) {
+      logger.info(`Planned ${actions.length} ClickUp changes for character ${info.character}`, {
+        plan: actions.map((action) => action.description),
+      });
+    } else {
+      logger.info(`ClickUp task ${taskId} updated successfully`);
+    }
+    return { taskId: taskId || undefined, actions, ...(dryRun && { dryRun }) };
   } catch (err: unknown) {
     const error = err as ApiError;
-    logger.error('Error updating ClickUp task', { message: error.message });
-    throw new Error(`Failed to update ClickUp: ${error.message}`);
+    logger.error('Error updating ClickUp task', {
+      message: error.message,
+      actions: actions.length,
+    });
+
+    // Keep track of writes that already happened before the failure
+    const updateError: ApiError & { actions?: ClickUpAction[] } = new Error(
+      `Failed to update ClickUp: ${error.message}`
+    );
+    updateError.actions = actions;
+    throw updateError;
+  }
+};
+
+/**
+ * Process extracted info with rate limiting to avoid API throttling
+ * @param extractedInfos - Array of extracted information
+ * @param onResult - Optional callback invoked after each update attempt
+ * @param options - Set `dryRun` to plan the updates without writing to ClickUp
+ * @returns Result of each update attempt
+ */
+export const processExtractedInfoWithRateLimit = async (
+  extractedInfos: ExtractedInfo[],
+  onResult?: (info: ExtractedInfo, result: ClickUpUpdateResult) => void,
+  options: ClickUpWriteOptions = {}
+): Promise<ClickUpUpdateResult[]> => {
+  logger.info(
+    `Processing ${extractedInfos.length} extracted character/task combinations with rate limiting`
+  );
+
+  const results: ClickUpUpdateResult[] = [];
+  const record = (
+    info: ExtractedInfo,
+    update?: ClickUpTaskUpdate,
+    error?: ApiError & { actions?: ClickUpAction[] }
+  ): void => {
+    const result: ClickUpUpdateResult = {
+      character: info.character,
+      task: info.task,
+      status: error ? 'error' : 'success',
+      ...(update?.taskId && { taskId: update.taskId }),
+      ...(update?.dryRun && { dryRun: true }),
+      actions: update?.actions || error?.actions || [],
+      ...(error && { error: error.message }),
+    };
+    results.push(result);
+    onResult?.(info, result);
+  };
+
+  // Dry runs only read from ClickUp, so they skip the pauses between writes
+  const dryRun = options.dryRun ?? config.clickup.dryRun;
+  const pause = (ms: number): Promise<void> =>
+    dryRun ? Promise.resolve() : new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Group infos by character to reduce duplicative API calls
+  const characterGroups = new Map<string, ExtractedInfo[]>();
+
+  for (const info of extractedInfos) {
+    if (!characterGroups.has(info.character)) {
+      characterGroups.set(info.character, []);
+    }
+    characterGroups.get(info.character)!.push(info);
   }
-};
\ No newline at end of file
+
+  // Process each character group
+  for (const [character, infos] of characterGroups.entries()) {
+    try {
+      logger.info(`Updating ClickUp for character: ${character} with ${infos.length} tasks`);
+
+      // Process first task
+      record(infos[0], await updateClickUpTask(infos[0], options));
+      logger.info(`Successfully updated primary task for character ${character}`);
+
+      // Add delay to avoid rate limiting
+      if (infos.length > 1) {
+        await pause(1000);
+
+        // Process any additional tasks
+        for (let i = 1; i < infos.length; i++) {
+          try {
+            record(infos[i], await updateClickUpTask(infos[i], options));
+            logger.info(`Successfully updated additional task ${i} for character ${character}`);
+
+            // Add delay between requests
+            await pause(1000);
+          } catch (taskErr: unknown) {
+            const taskError = taskErr as ApiError;
+            logger.error(`Failed to update additional task ${i} for ${character}`, {
+              message: taskError.message,
+            });
+            record(infos[i], undefined, taskError);
+          }
+        }
+      }
+
+      // Add delay between characters
+      await pause(2000);
+    } catch (updateErr: unknown) {
+      const updateError = updateErr as ApiError;
+      logger.error(`Failed to update ClickUp for character ${character}`, {
+        message: updateError.message,
+        stack: updateError.stack,
+      });
+      // The primary task failed, so the rest of this character's tasks were never attempted
+      record(infos[0], undefined, updateError);
+      for (const info of infos.slice(1)) {
+        record(info, undefined, new Error(`Skipped: ${updateError.message}`));
+      }
+    }
+  }
+
+  logger.info('Completed processing all character/task combinations');
+  return results;
+};
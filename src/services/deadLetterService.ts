@@ -0,0 +1,77 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import config from '../config/env';
+import logger from '../config/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { DeadLetter, DeadLetterStatus, RecordingJob } from '../types';
+
+const store = new JsonFileStore<DeadLetter>(path.join(config.storage.dataDir, 'dead-letters.json'));
+
+/**
+ * Store a job that failed for good. A job that fails again after a retry
+ * updates its pending dead letter instead of adding another one.
+ * @param job - The failed job, with the report of its last run
+ * @returns The dead letter
+ */
+export const addDeadLetter = (job: RecordingJob): DeadLetter => {
+  const now = new Date().toISOString();
+  const existing = store.list().find((letter) => letter.jobId === job.id);
+
+  const letter = store.upsert({
+    id: existing?.id || randomUUID(),
+    jobId: job.id,
+    source: job.source,
+    status: 'pending',
+    meetingId: job.meetingId,
+    topic: job.topic,
+    event: job.event,
+    ...(job.options && { options: job.options }),
+    failedStage: job.report?.failedStage,
+    error: job.report?.error || job.error || 'Unknown error',
+    errorChain: job.report?.errorChain || [],
+    transient: job.report?.transient === true,
+    attempts: job.attempts,
+    retryCount: existing?.retryCount || 0,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  });
+
+  logger.warn(`Recording job ${job.id} dead-lettered after ${job.attempts} attempts`, {
+    deadLetterId: letter.id,
+    failedStage: letter.failedStage,
+    errorChain: letter.errorChain,
+  });
+  return letter;
+};
+
+/**
+ * List dead letters, newest first
+ * @param filter - Optional status and meeting filters
+ */
+export const listDeadLetters = (filter: { status?: DeadLetterStatus; meetingId?: string } = {}) => {
+  return store
+    .list()
+    .filter((letter) => !filter.status || letter.status === filter.status)
+    .filter((letter) => !filter.meetingId || letter.meetingId === filter.meetingId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getDeadLetter = (id: string): DeadLetter | undefined => {
+  return store.get(id);
+};
+
+/**
+ * Record that a dead letter was sent back to the job queue
+ * @param id - The dead letter ID
+ */
+export const markRetried = (id: string): DeadLetter | undefined => {
+  const letter = store.get(id);
+  if (!letter) return undefined;
+
+  const now = new Date().toISOString();
+  letter.status = 'retried';
+  letter.retryCount++;
+  letter.retriedAt = now;
+  letter.updatedAt = now;
+  return store.upsert(letter);
+};
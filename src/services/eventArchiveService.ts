@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config/env';
+import logger from '../config/logger';
+import { matchesPattern } from './zoomEventBus';
+import { zoomEventSourceSchema } from '../schemas/zoomEventSchemas';
+import { ArchivedEvent, QuarantinedEvent, ZoomEvent } from '../types';
+
+export interface ArchiveFilter {
+  // Event type patterns, as accepted by the event bus ("recording.*")
+  eventTypes?: string[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+const readyDirectories = new Set<string>();
+
+/**
+ * Append an entry to an NDJSON file without blocking or failing the caller
+ */
+const appendEntry = (filePath: string, entry: ArchivedEvent, failure: string): void => {
+  const directory = path.dirname(filePath);
+  if (!readyDirectories.has(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+    readyDirectories.add(directory);
+  }
+
+  fs.promises.appendFile(filePath, JSON.stringify(entry) + '\n').catch((error) => {
+    logger.error(failure, {
+      eventType: entry.event.event,
+      message: (error as Error).message,
+    });
+  });
+};
+
+const toEntry = (event: ZoomEvent): ArchivedEvent => ({
+  receivedAt: event.receivedAt,
+  source: event.source,
+  ...(event.subscription && { subscription: event.subscription }),
+  event,
+});
+
+/**
+ * Append a Zoom event to the event archive, when archiving is enabled.
+ * Writes are asynchronous and never fail the caller.
+ * @param event - The event as received, tagged with its source
+ */
+export const archiveEvent = (event: ZoomEvent): void => {
+  if (!config.archive.enabled) {
+    return;
+  }
+
+  appendEntry(config.archive.path, toEntry(event), 'Failed to archive Zoom event');
+};
+
+/**
+ * Keep an event that failed schema validation, whether or not archiving is enabled.
+ * The quarantine file can be replayed like the archive once the cause is fixed.
+ * @param event - The event as received, tagged with its source
+ * @param issues - What was wrong, each prefixed with its path in the event
+ */
+export const quarantineEvent = (event: ZoomEvent, issues: string[]): void => {
+  const entry: QuarantinedEvent = { ...toEntry(event), issues };
+  appendEntry(config.archive.quarantinePath, entry, 'Failed to quarantine Zoom event');
+};
+
+/**
+ * Parse NDJSON archive content, skipping lines that are not archived events
+ * @param content - Archive file content
+ * @param filter - Optional event type, time range and count filters
+ * @returns Matching events in the order they were received
+ */
+export const parseArchive = (content: string, filter: ArchiveFilter = {}): ArchivedEvent[] => {
+  const events: ArchivedEvent[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    try {
+      const entry = JSON.parse(line) as ArchivedEvent;
+      if (!entry.event?.event || !entry.receivedAt) {
+        throw new Error('missing event or receivedAt');
+      }
+      if (!zoomEventSourceSchema.safeParse(entry.source).success) {
+        throw new Error(`unknown source "${entry.source}"`);
+      }
+      events.push(entry);
+    } catch (error) {
+      logger.warn(`Skipping invalid event archive line ${index + 1}`, {
+        message: (error as Error).message,
+      });
+    }
+  });
+
+  const matching = events
+    .filter(
+      (entry) =>
+        !filter.eventTypes?.length ||
+        filter.eventTypes.some((pattern) => matchesPattern(pattern, entry.event.event))
+    )
+    .filter((entry) => !filter.from || new Date(entry.receivedAt) >= filter.from)
+    .filter((entry) => !filter.to || new Date(entry.receivedAt) <= filter.to)
+    .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+
+  return filter.limit ? matching.slice(0, filter.limit) : matching;
+};
+
+/**
+ * Read archived events from an archive file
+ * @param filter - Optional event type, time range and count filters
+ * @param filePath - Archive to read; the configured archive when omitted
+ * @returns Matching events in the order they were received
+ */
+export const readArchivedEvents = async (
+  filter: ArchiveFilter = {},
+  filePath: string = config.archive.path
+): Promise<ArchivedEvent[]> => {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const content = await fs.promises.readFile(filePath, 'utf8');
+  return parseArchive(content, filter);
+};
@@ -0,0 +1,102 @@
+import config from '../config/env';
+import { findDuplicate, getEventKey, markEventSeen } from './eventDedupService';
+import { RecordingCompletedEvent } from '../types';
+
+let meetingCount = 0;
+
+const recordingEvent = (
+  overrides: Partial<RecordingCompletedEvent> = {}
+): RecordingCompletedEvent => {
+  meetingCount++;
+  return {
+    event: 'recording.completed',
+    event_ts: 1700000000000,
+    payload: {
+      object: {
+        id: '123',
+        uuid: `meeting-${meetingCount}`,
+        topic: 'Standup',
+        recording_files: [
+          { id: 'b', file_type: 'M4A', download_url: 'https://zoom.us/rec/b' },
+          { id: 'a', file_type: 'MP4', download_url: 'https://zoom.us/rec/a' },
+        ],
+      },
+    },
+    ...overrides,
+  };
+};
+
+describe('eventDedupService', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getEventKey', () => {
+    it('is the same for a delivery over either transport', () => {
+      const event = recordingEvent();
+
+      expect(getEventKey({ ...event, source: 'webhook', subscription: 'main' })).toBe(
+        getEventKey({ ...event, source: 'websocket' })
+      );
+    });
+
+    it('does not depend on the order of the recording files', () => {
+      const event = recordingEvent();
+      const reordered = {
+        ...event,
+        payload: {
+          object: {
+            ...event.payload.object,
+            recording_files: [...event.payload.object.recording_files].reverse(),
+          },
+        },
+      };
+
+      expect(getEventKey(reordered)).toBe(getEventKey(event));
+    });
+
+    it('tells apart events of another type or time', () => {
+      const event = recordingEvent();
+
+      expect(getEventKey({ ...event, event_ts: event.event_ts + 1 })).not.toBe(getEventKey(event));
+      expect(getEventKey({ ...event, event: 'recording.transcript_completed' } as any)).not.toBe(
+        getEventKey(event)
+      );
+    });
+  });
+
+  describe('findDuplicate', () => {
+    it('only reports events that were marked seen', () => {
+      const event = recordingEvent();
+
+      expect(findDuplicate(event)).toBeUndefined();
+      markEventSeen(event, 'job-1');
+
+      const duplicate = findDuplicate({ ...event, source: 'websocket' });
+      expect(duplicate).toMatchObject({ jobId: 'job-1', deliveries: 2 });
+      expect(findDuplicate(event)).toMatchObject({ deliveries: 3 });
+    });
+
+    it('keeps the job and first-seen time when an event is marked again', () => {
+      const event = recordingEvent();
+      markEventSeen(event, 'job-2');
+      const firstSeenAt = findDuplicate(event)!.firstSeenAt;
+
+      markEventSeen(event);
+
+      expect(findDuplicate(event)).toMatchObject({ jobId: 'job-2', firstSeenAt });
+    });
+
+    it('forgets events once the deduplication window has passed', () => {
+      jest.useFakeTimers({ now: new Date('2030-01-01T00:00:00Z') });
+      const event = recordingEvent();
+      markEventSeen(event);
+
+      jest.setSystemTime(Date.now() + config.dedup.windowHours * 60 * 60 * 1000 - 1000);
+      expect(findDuplicate(event)).toBeDefined();
+
+      jest.setSystemTime(Date.now() + 2000);
+      expect(findDuplicate(event)).toBeUndefined();
+    });
+  });
+});
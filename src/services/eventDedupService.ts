@@ -0,0 +1,100 @@
+import path from 'path';
+import config from '../config/env';
+import logger from '../config/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { ZoomWebhookEvent } from '../types';
+
+interface SeenEvent {
+  id: string;
+  eventType: string;
+  jobId?: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  deliveries: number;
+}
+
+// Every received event touches the seen-set, so writes are batched
+const SAVE_DELAY_MS = 1000;
+
+const store = new JsonFileStore<SeenEvent>(path.join(config.storage.dataDir, 'seen-events.json'), {
+  saveDelayMs: SAVE_DELAY_MS,
+});
+
+const windowMs = (): number => config.dedup.windowHours * 60 * 60 * 1000;
+
+/**
+ * Build the deduplication key for a Zoom event.
+ * Redeliveries, WebSocket replays and the same event received over both transports
+ * carry the same meeting UUID, recording IDs and event_ts.
+ * @param event - The Zoom event
+ * @returns Key identifying this delivery of the event
+ */
+export const getEventKey = (event: ZoomWebhookEvent): string => {
+  const meeting = event.payload?.object;
+  const files = Array.isArray(meeting?.recording_files) ? meeting.recording_files : [];
+  const recordingIds = files
+    .map((file: { id?: unknown }) => String(file?.id))
+    .sort()
+    .join(',');
+
+  return [event.event, meeting?.uuid || meeting?.id || '', recordingIds, event.event_ts].join(':');
+};
+
+/**
+ * Forget events that were first seen before the deduplication window
+ */
+const pruneExpired = (): void => {
+  const cutoff = Date.now() - windowMs();
+  const expired = store
+    .list()
+    .filter((seen) => new Date(seen.firstSeenAt).getTime() < cutoff)
+    .map((seen) => seen.id);
+
+  store.deleteMany(expired);
+};
+
+/**
+ * Look up an event in the seen-set
+ * @param event - The Zoom event
+ * @returns The seen-set entry if the event was already processed within the window
+ */
+export const findDuplicate = (event: ZoomWebhookEvent): SeenEvent | undefined => {
+  pruneExpired();
+
+  const seen = store.get(getEventKey(event));
+  if (!seen) {
+    return undefined;
+  }
+
+  seen.deliveries++;
+  seen.lastSeenAt = new Date().toISOString();
+  store.upsert(seen);
+
+  logger.info(`Duplicate Zoom event ignored: ${event.event}`, {
+    key: seen.id,
+    jobId: seen.jobId,
+    deliveries: seen.deliveries,
+  });
+  return seen;
+};
+
+/**
+ * Record an event in the seen-set. Recording it again, e.g. to link the job
+ * created for it, keeps when it was first seen.
+ * @param event - The Zoom event
+ * @param jobId - Job created for the event, if any
+ */
+export const markEventSeen = (event: ZoomWebhookEvent, jobId?: string): void => {
+  const now = new Date().toISOString();
+  const key = getEventKey(event);
+  const existing = store.get(key);
+
+  store.upsert({
+    id: key,
+    eventType: event.event,
+    jobId: jobId || existing?.jobId,
+    firstSeenAt: existing?.firstSeenAt || now,
+    lastSeenAt: now,
+    deliveries: existing?.deliveries || 1,
+  });
+};
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto';
+import logger from '../config/logger';
+import zoomEventIngestion from './zoomEventIngestion';
+import { ArchivedEvent, ReplayRun, ReplayTiming } from '../types';
+
+export interface ReplayOptions {
+  timing?: ReplayTiming;
+  // Playback speed multiplier for original timing; 2 halves the gaps
+  speed?: number;
+  // Event type patterns the events were filtered by, recorded on the run
+  eventTypes?: string[];
+  // Defaults to true, so replays never write to ClickUp unless asked to
+  dryRun?: boolean;
+  skipClickUp?: boolean;
+}
+
+// Replays started since the process started, with their pending timers
+const runs = new Map<string, ReplayRun>();
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Feed archived events back through event ingestion and the event handlers.
+ * Replayed events skip duplicate suppression and are marked so handlers
+ * process them with the replay's ClickUp options.
+ * @param events - Archived events in the order they were received
+ * @param options - Timing and ClickUp options
+ * @returns The replay run; events are published in the background
+ */
+export const startReplay = (events: ArchivedEvent[], options: ReplayOptions = {}): ReplayRun => {
+  const run: ReplayRun = {
+    id: randomUUID(),
+    status: 'running',
+    timing: options.timing || 'fast',
+    speed: options.speed && options.speed > 0 ? options.speed : 1,
+    ...(options.eventTypes?.length && { eventTypes: options.eventTypes }),
+    dryRun: options.dryRun !== false,
+    skipClickUp: options.skipClickUp === true,
+    total: events.length,
+    published: 0,
+    startedAt: new Date().toISOString(),
+  };
+
+  runs.set(run.id, run);
+  logger.info(`Replaying ${events.length} archived Zoom events`, {
+    replayId: run.id,
+    timing: run.timing,
+    speed: run.speed,
+    dryRun: run.dryRun,
+    skipClickUp: run.skipClickUp,
+  });
+
+  publishNext(run, events, 0);
+  return run;
+};
+
+/**
+ * Publish one event and schedule the next, keeping the original gap between
+ * them when the run uses original timing
+ */
+const publishNext = (run: ReplayRun, events: ArchivedEvent[], index: number): void => {
+  timers.delete(run.id);
+  if (run.status !== 'running') {
+    return;
+  }
+
+  if (index >= events.length) {
+    run.status = 'completed';
+    run.completedAt = new Date().toISOString();
+    logger.info(`Replay ${run.id} completed`, { published: run.published });
+    return;
+  }
+
+  const entry = events[index];
+  zoomEventIngestion.ingest(entry.event, entry.source, {
+    subscription: entry.subscription,
+    replay: { replayId: run.id, dryRun: run.dryRun, skipClickUp: run.skipClickUp },
+  });
+  run.published++;
+
+  const next = events[index + 1];
+  const gapMs =
+    run.timing === 'original' && next
+      ? Math.max(0, Date.parse(next.receivedAt) - Date.parse(entry.receivedAt)) / run.speed
+      : 0;
+
+  timers.set(
+    run.id,
+    setTimeout(() => publishNext(run, events, index + 1), gapMs)
+  );
+};
+
+/**
+ * Stop a running replay; events already published are still processed
+ * @param id - Replay ID
+ * @returns The run, or undefined when it does not exist
+ */
+export const cancelReplay = (id: string): ReplayRun | undefined => {
+  const run = runs.get(id);
+  if (!run || run.status !== 'running') {
+    return run;
+  }
+
+  const timer = timers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(id);
+  }
+
+  run.status = 'cancelled';
+  run.completedAt = new Date().toISOString();
+  logger.info(`Replay ${id} cancelled`, { published: run.published, total: run.total });
+  return run;
+};
+
+export const getReplay = (id: string): ReplayRun | undefined => {
+  return runs.get(id);
+};
+
+/**
+ * List replay runs, newest first
+ */
+export const listReplays = (): ReplayRun[] => {
+  return [...runs.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
@@ -2,6 +2,7 @@ import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory } from '@google/ge
 import config from '../config/env';
 import logger from '../config/logger';
 import { ExtractedInfo, ApiError } from '../types';
+import { textPreview } from '../utils/logRedaction';
 import fs from 'fs';
 import path from 'path';
 
@@ -57,17 +58,19 @@ function cleanJsonString(str: string): string {
 export const extractInformationWithGemini = async (text: string): Promise<ExtractedInfo[]> => {
   try {
     logger.info('Extracting information using Google Gemini 2.0 Pro Experimental');
-    logger.info(`Text to analyze (first 200 chars): ${text.substring(0, 200)}...`);
+    logger.info(`Text to analyze: ${textPreview(text, 200)}`);
     
-    // For debugging: Write full transcript to file
-    try {
-      const debugDir = path.join(__dirname, '../../debug');
-      if (!fs.existsSync(debugDir)) {
-        fs.mkdirSync(debugDir, { recursive: true });
+    // For debugging: Write full transcript to file, unless the log privacy level forbids it
+    if (config.logging.privacyLevel === 'full') {
+      try {
+        const debugDir = path.join(__dirname, '../../debug');
+        if (!fs.existsSync(debugDir)) {
+          fs.mkdirSync(debugDir, { recursive: true });
+        }
+        fs.writeFileSync(path.join(debugDir, `transcript_${Date.now()}.txt`), text);
+      } catch (err) {
+        logger.warn('Could not write debug transcript file', { error: (err as Error).message });
       }
-      fs.writeFileSync(path.join(debugDir, `transcript_${Date.now()}.txt`), text);
-    } catch (err) {
-      logger.warn('Could not write debug transcript file', { error: (err as Error).message });
     }
     
     // Initialize the model with the correct name
@@ -134,15 +137,19 @@ export const extractInformationWithGemini = async (text: string): Promise<Extrac
     
     logger.info('Gemini analysis completed');
     
-    // Save raw response for debugging
-    try {
-      const debugDir = path.join(__dirname, '../../debug');
-      if (!fs.existsSync(debugDir)) {
-        fs.mkdirSync(debugDir, { recursive: true });
+    // Save raw response for debugging, unless the log privacy level forbids it
+    if (config.logging.privacyLevel === 'full') {
+      try {
+        const debugDir = path.join(__dirname, '../../debug');
+        if (!fs.existsSync(debugDir)) {
+          fs.mkdirSync(debugDir, { recursive: true });
+        }
+        fs.writeFileSync(path.join(debugDir, `gemini_response_${Date.now()}.txt`), responseText);
+      } catch (err) {
+        logger.warn('Could not write debug Gemini response file', {
+          error: (err as Error).message,
+        });
       }
-      fs.writeFileSync(path.join(debugDir, `gemini_response_${Date.now()}.txt`), responseText);
-    } catch (err) {
-      logger.warn('Could not write debug Gemini response file', { error: (err as Error).message });
     }
     
     // Parse the JSON response
@@ -0,0 +1,173 @@
+import config from '../config/env';
+import recordingJobQueue from './jobQueueService';
+import { findDuplicate } from './eventDedupService';
+import { runPipeline } from './pipelineService';
+import { PipelineRunReport, RecordingCompletedEvent, ZoomRecordingFile } from '../types';
+
+jest.mock('./pipelineService');
+jest.mock('./zoomAuthService');
+jest.mock('./zoomTranscriptionService');
+
+const mockedRunPipeline = jest.mocked(runPipeline);
+
+const report = (): PipelineRunReport => {
+  const now = new Date().toISOString();
+  return {
+    success: true,
+    startedAt: now,
+    completedAt: now,
+    durationMs: 0,
+    stages: [],
+    extractedInfo: [],
+    clickUpUpdates: [],
+  };
+};
+
+const recordingFile = (id: string, fileType: string): ZoomRecordingFile => ({
+  id,
+  file_type: fileType,
+  download_url: `https://zoom.example.com/rec/${id}`,
+});
+
+const recordingCompleted = (meetingId: string): RecordingCompletedEvent => ({
+  event: 'recording.completed',
+  event_ts: Date.now(),
+  source: 'webhook',
+  payload: {
+    object: {
+      id: meetingId,
+      uuid: `uuid-${meetingId}`,
+      topic: `Meeting ${meetingId}`,
+      recording_files: [recordingFile(`audio-${meetingId}`, 'M4A')],
+    },
+  },
+});
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('recordingJobQueue', () => {
+  beforeAll(() => {
+    config.jobs.concurrency = 1;
+    config.zoom.transcript.preferred = true;
+    // 30ms, so the wait runs out during the test
+    config.zoom.transcript.waitMinutes = 0.0005;
+    recordingJobQueue.start();
+  });
+
+  afterAll(() => {
+    recordingJobQueue.stop();
+  });
+
+  it('runs a job once when its transcript arrives after the wait ran out behind busy workers', async () => {
+    // Occupy the only worker until released
+    let release: () => void = () => undefined;
+    mockedRunPipeline.mockImplementationOnce(
+      () => new Promise((resolve) => (release = () => resolve(report())))
+    );
+    mockedRunPipeline.mockResolvedValue(report());
+
+    const busy = recordingJobQueue.enqueueUpload({
+      filePath: '/tmp/busy.m4a',
+      fileName: 'busy.m4a',
+    });
+    await waitFor(() => mockedRunPipeline.mock.calls.length === 1);
+
+    const event = recordingCompleted('123');
+    const job = recordingJobQueue.enqueue(event, 'webhook');
+    expect(job.status).toBe('awaiting_transcript');
+
+    // The wait runs out while the worker is busy, so the job stays queued
+    await waitFor(() => recordingJobQueue.getJob(job.id)?.status === 'queued');
+
+    const transcriptFile = recordingFile('transcript-123', 'TRANSCRIPT');
+    const { resumed } = recordingJobQueue.attachZoomTranscript(
+      { id: '123', uuid: 'uuid-123' },
+      transcriptFile
+    );
+    expect(resumed.map((resumedJob) => resumedJob.id)).toEqual([job.id]);
+
+    release();
+    await waitFor(() => recordingJobQueue.getJob(job.id)?.status === 'done');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const runs = mockedRunPipeline.mock.calls.filter(([input]) => input.jobId === job.id);
+    expect(runs).toHaveLength(1);
+    expect(runs[0][0].transcriptFile).toEqual(transcriptFile);
+    expect(recordingJobQueue.getJob(busy.id)?.status).toBe('done');
+  });
+
+  it('links only live deliveries to their job in the seen-set', async () => {
+    mockedRunPipeline.mockResolvedValue(report());
+
+    const manual = recordingCompleted('456');
+    recordingJobQueue.enqueue(manual, 'manual');
+    expect(findDuplicate(manual)).toBeUndefined();
+
+    const live = recordingCompleted('789');
+    const job = recordingJobQueue.enqueue(live, 'webhook');
+    expect(findDuplicate(live)?.jobId).toBe(job.id);
+  });
+
+  it('lets callers wait for a job to finish running', async () => {
+    mockedRunPipeline.mockResolvedValue(report());
+
+    const job = recordingJobQueue.enqueueUpload({
+      filePath: '/tmp/wait.m4a',
+      fileName: 'wait.m4a',
+    });
+    const finished = await recordingJobQueue.waitForJob(job.id);
+
+    expect(finished.status).toBe('done');
+    expect(finished.report?.success).toBe(true);
+  });
+
+  it('stops waiting when a transient failure schedules a retry', async () => {
+    // Jobs of earlier tests may still run, so only this one fails
+    mockedRunPipeline.mockImplementation(async (input) =>
+      input.topic === 'retry.m4a'
+        ? {
+            ...report(),
+            success: false,
+            failedStage: 'transcribe',
+            error: 'Service unavailable',
+            transient: true,
+          }
+        : report()
+    );
+
+    const job = recordingJobQueue.enqueueUpload({
+      filePath: '/tmp/retry.m4a',
+      fileName: 'retry.m4a',
+    });
+    const finished = await recordingJobQueue.waitForJob(job.id);
+
+    expect(finished.status).toBe('queued');
+    expect(finished.nextAttemptAt).toBeDefined();
+  });
+
+  it('schedules a retry when a run throws', async () => {
+    mockedRunPipeline.mockImplementation(async (input) => {
+      if (input.topic === 'crash.m4a') {
+        throw new Error('ENOSPC: no space left on device');
+      }
+      return report();
+    });
+
+    const job = recordingJobQueue.enqueueUpload({
+      filePath: '/tmp/crash.m4a',
+      fileName: 'crash.m4a',
+    });
+    const finished = await recordingJobQueue.waitForJob(job.id);
+
+    expect(finished).toMatchObject({
+      status: 'queued',
+      error: 'ENOSPC: no space left on device',
+    });
+    expect(finished.nextAttemptAt).toBeDefined();
+  });
+});
@@ -0,0 +1,700 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import config from '../config/env';
+import logger from '../config/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { cleanupPipelineFiles, runPipeline } from './pipelineService';
+import { markEventSeen } from './eventDedupService';
+import { countPendingItems, onReviewResolved } from './reviewService';
+import { addDeadLetter } from './deadLetterService';
+import { getAccessToken } from './zoomAuthService';
+import { downloadZoomTranscript } from './zoomTranscriptionService';
+import {
+  JobOptions,
+  JobSource,
+  JobStatus,
+  PipelineStageName,
+  RecordingJob,
+  ReviewItem,
+  RecordingEvent,
+  ZoomRecordingFile,
+} from '../types';
+
+// Jobs in these states have finished running the pipeline and are not resumed
+const SETTLED_STATUSES: JobStatus[] = ['done', 'failed', 'awaiting_review', 'cancelled'];
+
+interface EnqueueOptions {
+  jobOptions?: JobOptions;
+}
+
+interface UploadedRecording {
+  // Where the upload was stored; removed once the pipeline has run
+  filePath: string;
+  fileName: string;
+  meetingId?: string;
+  topic?: string;
+}
+
+// Job status shown while each pipeline stage runs
+const STAGE_STATUS: Record<PipelineStageName, JobStatus> = {
+  download: 'downloading',
+  convert: 'converting',
+  transcribe: 'transcribing',
+  extract: 'extracting',
+  update_clickup: 'updating_clickup',
+};
+
+/**
+ * Pick the recording file to process from a Zoom meeting
+ * @param recordings - Recording files attached to the meeting
+ * @returns The first audio-capable recording, if any
+ */
+const findAudioRecording = (recordings: ZoomRecordingFile[]): ZoomRecordingFile | undefined => {
+  return recordings.find(
+    (file) =>
+      file.file_type === 'M4A' || file.file_type === 'MP4' || file.recording_type === 'audio_only'
+  );
+};
+
+/**
+ * Pick Zoom's transcript from a meeting's recording files, as sent with
+ * recording events or listed by the recordings API
+ * @param recordings - Recording files attached to the meeting
+ * @returns The VTT transcript, if Zoom has produced one
+ */
+export const findTranscriptFile = (
+  recordings: ZoomRecordingFile[]
+): ZoomRecordingFile | undefined => {
+  return recordings.find(
+    (file) => file.file_type === 'TRANSCRIPT' || file.recording_type === 'audio_transcript'
+  );
+};
+
+/**
+ * Persistent queue for recording processing jobs.
+ * Every pipeline stage writes a checkpoint to the job store, so a job interrupted
+ * by a restart resumes from the last completed stage instead of being lost.
+ */
+class RecordingJobQueue {
+  private store: JsonFileStore<RecordingJob>;
+  private pending: string[] = [];
+  private retryTimers = new Map<string, NodeJS.Timeout>();
+  // Jobs running the pipeline, and those of them to stop before their next stage
+  private running = new Set<string>();
+  private cancelRequests = new Set<string>();
+  // Callers waiting for a job to stop running, by job ID
+  private runWaiters = new Map<string, ((job: RecordingJob) => void)[]>();
+  private active = 0;
+  private started = false;
+
+  constructor() {
+    this.store = new JsonFileStore<RecordingJob>(path.join(config.storage.dataDir, 'jobs.json'));
+    onReviewResolved((item) => this.handleReviewResolved(item));
+  }
+
+  /**
+   * Record the outcome of a reviewed item on its job and complete the job
+   * once none of its items are pending anymore
+   * @param item - The approved, rejected or expired review item
+   */
+  private handleReviewResolved(item: ReviewItem): void {
+    const job = item.jobId ? this.store.get(item.jobId) : undefined;
+    if (!job) return;
+
+    if (item.clickUpUpdate) {
+      job.checkpoints.clickUpUpdates = [
+        ...(job.checkpoints.clickUpUpdates || []),
+        item.clickUpUpdate,
+      ];
+    }
+
+    if (job.status === 'awaiting_review' && countPendingItems(job.id) === 0) {
+      job.status = 'done';
+      job.completedAt = new Date().toISOString();
+      logger.info(`All review items resolved for job ${job.id}`);
+    }
+
+    this.save(job);
+  }
+
+  /**
+   * Load unfinished jobs from the store and start processing them
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const unfinished = this.store
+      .list()
+      .filter((job) => !SETTLED_STATUSES.includes(job.status))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    if (unfinished.length > 0) {
+      logger.info(`Resuming ${unfinished.length} unfinished recording jobs`);
+    }
+
+    for (const job of unfinished) {
+      if (job.nextAttemptAt && new Date(job.nextAttemptAt).getTime() > Date.now()) {
+        this.scheduleAttempt(job);
+      } else {
+        this.queueDue(job);
+      }
+    }
+
+    logger.info(`Recording job queue started with concurrency ${config.jobs.concurrency}`);
+    this.drain();
+  }
+
+  /**
+   * Stop picking up new jobs. Jobs in progress keep their checkpoints and resume on next start.
+   */
+  stop(): void {
+    this.started = false;
+
+    // Scheduled retries are persisted and rescheduled on next start
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Create a job for a recording event and queue it. Jobs that should use Zoom's
+   * transcript wait for it first, unless the event already carries it.
+   * Duplicate deliveries are dropped by event ingestion before they get here.
+   * @param event - The Zoom recording event
+   * @param source - Where the event came from
+   * @param options - Per-job overrides
+   * @returns The queued job
+   */
+  enqueue(event: RecordingEvent, source: JobSource, options: EnqueueOptions = {}): RecordingJob {
+    const meeting = event.payload.object;
+
+    const now = new Date().toISOString();
+    const job: RecordingJob = {
+      id: randomUUID(),
+      source,
+      status: 'queued',
+      meetingId: String(meeting.id),
+      meetingUuid: meeting.uuid,
+      topic: meeting.topic,
+      ...(event.subscription && { subscription: event.subscription }),
+      recordingFile: findAudioRecording(meeting.recording_files),
+      transcriptFile: findTranscriptFile(meeting.recording_files),
+      event,
+      ...(options.jobOptions && { options: options.jobOptions }),
+      checkpoints: {},
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (options.jobOptions?.reuseTranscript) {
+      this.reuseCachedTranscript(job);
+    }
+
+    if (this.shouldWaitForTranscript(job)) {
+      this.waitForTranscript(job);
+    } else {
+      this.queue(job);
+    }
+    // Link a live delivery to its job, so redeliveries can report it. Replays and
+    // manual reprocesses are not deliveries and stay out of the seen-set.
+    if (source === 'webhook' || source === 'websocket') {
+      markEventSeen(event, job.id);
+    }
+    return job;
+  }
+
+  /**
+   * Create a job for an uploaded audio or video file and queue it.
+   * The file counts as already downloaded, so the job starts at conversion.
+   * @param upload - The stored file and optional meeting metadata
+   * @param jobOptions - Per-job overrides
+   * @returns The queued job
+   */
+  enqueueUpload(upload: UploadedRecording, jobOptions?: JobOptions): RecordingJob {
+    const now = new Date().toISOString();
+    const job: RecordingJob = {
+      id: randomUUID(),
+      source: 'upload',
+      status: 'queued',
+      meetingId: upload.meetingId || '',
+      topic: upload.topic || upload.fileName,
+      fileName: upload.fileName,
+      ...(jobOptions && { options: jobOptions }),
+      checkpoints: { downloadedFilePath: upload.filePath },
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.queue(job);
+    return job;
+  }
+
+  /**
+   * Seed a job with the most recent transcript of the same meeting so
+   * download, conversion and transcription are skipped
+   * @param job - The new job
+   */
+  private reuseCachedTranscript(job: RecordingJob): void {
+    const cached = this.store
+      .list()
+      .filter((other) => other.meetingId === job.meetingId && other.checkpoints.transcript)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+    if (!cached) {
+      logger.warn(`No cached transcript for meeting ${job.meetingId}, running full pipeline`);
+      return;
+    }
+
+    job.checkpoints.transcript = cached.checkpoints.transcript;
+    job.checkpoints.transcriptionProvider = cached.checkpoints.transcriptionProvider;
+    logger.info(`Reusing transcript from job ${cached.id} for meeting ${job.meetingId}`);
+  }
+
+  /**
+   * Whether a new job should wait for recording.transcript_completed: it asks for
+   * Zoom's transcript, or has no provider and Zoom's transcript is preferred.
+   * Only live recording.completed deliveries wait; manual and replayed jobs would
+   * never see the transcript event, so they run with the files they have.
+   * @param job - The new job
+   */
+  private shouldWaitForTranscript(job: RecordingJob): boolean {
+    const provider = job.options?.transcriptionProvider;
+    const wantsZoom = provider === 'zoom' || (!provider && config.zoom.transcript.preferred);
+    const live = job.source === 'webhook' || job.source === 'websocket';
+    return (
+      live &&
+      job.event?.event === 'recording.completed' &&
+      wantsZoom &&
+      !!job.recordingFile &&
+      !job.transcriptFile &&
+      job.checkpoints.transcript === undefined &&
+      config.zoom.transcript.waitMinutes > 0
+    );
+  }
+
+  /**
+   * Hold a job until Zoom's transcript arrives or the wait is over. Once the wait
+   * is over the job runs anyway, falling back to local transcription.
+   * @param job - The new job
+   */
+  private waitForTranscript(job: RecordingJob): void {
+    job.status = 'awaiting_transcript';
+    job.nextAttemptAt = new Date(
+      Date.now() + config.zoom.transcript.waitMinutes * 60 * 1000
+    ).toISOString();
+    this.save(job);
+    this.scheduleAttempt(job);
+    logger.info(
+      `Recording job ${job.id} waiting up to ${config.zoom.transcript.waitMinutes} minutes for Zoom's transcript of meeting: ${job.topic}`
+    );
+  }
+
+  /**
+   * Jobs of a meeting instance, matched on the meeting UUID when both have one
+   * @param meeting - ID and UUID from a Zoom event
+   */
+  private findMeetingJobs(meeting: { id: string; uuid?: string }): RecordingJob[] {
+    return this.store
+      .list()
+      .filter((job) =>
+        job.meetingUuid && meeting.uuid
+          ? job.meetingUuid === meeting.uuid
+          : job.meetingId === meeting.id
+      );
+  }
+
+  /**
+   * Hand Zoom's transcript to the jobs of a meeting that are waiting for it and run them.
+   * Jobs whose wait ran out but that have not started yet take the transcript too.
+   * @param meeting - ID and UUID of the meeting instance
+   * @param transcriptFile - The TRANSCRIPT recording file
+   * @returns The jobs that were waiting, and whether the meeting has any job at all
+   */
+  attachZoomTranscript(
+    meeting: { id: string; uuid?: string },
+    transcriptFile: ZoomRecordingFile
+  ): { resumed: RecordingJob[]; hasJobs: boolean } {
+    const jobs = this.findMeetingJobs(meeting).filter((job) => job.status !== 'cancelled');
+    const waiting = jobs.filter(
+      (job) =>
+        job.status === 'awaiting_transcript' ||
+        (this.pending.includes(job.id) && !job.transcriptFile)
+    );
+
+    for (const job of waiting) {
+      this.clearRetryTimer(job.id);
+      job.transcriptFile = transcriptFile;
+      job.status = 'queued';
+      job.nextAttemptAt = undefined;
+      logger.info(`Zoom transcript ready for recording job ${job.id}`);
+      this.queue(job);
+    }
+    return { resumed: waiting, hasJobs: jobs.length > 0 };
+  }
+
+  /**
+   * Cancel the unfinished jobs of a meeting, such as when its recording is deleted.
+   * Running jobs stop before their next stage.
+   * @param meeting - ID and UUID of the meeting instance
+   * @param reason - Why the jobs are cancelled
+   * @param fileIds - Only cancel jobs processing one of these recording files
+   * @returns The cancelled jobs
+   */
+  cancelMeetingJobs(
+    meeting: { id: string; uuid?: string },
+    reason: string,
+    fileIds: string[] = []
+  ): RecordingJob[] {
+    const jobs = this.findMeetingJobs(meeting)
+      .filter((job) => !SETTLED_STATUSES.includes(job.status))
+      .filter(
+        (job) =>
+          fileIds.length === 0 || !job.recordingFile || fileIds.includes(job.recordingFile.id)
+      );
+
+    for (const job of jobs) {
+      if (this.running.has(job.id)) {
+        this.cancelRequests.add(job.id);
+        job.cancelReason = reason;
+        logger.info(`Recording job ${job.id} will stop before its next stage: ${reason}`);
+        continue;
+      }
+
+      this.clearRetryTimer(job.id);
+      this.pending = this.pending.filter((id) => id !== job.id);
+      this.markCancelled(job, reason);
+    }
+    return jobs;
+  }
+
+  private markCancelled(job: RecordingJob, reason: string): void {
+    job.status = 'cancelled';
+    job.cancelReason = reason;
+    job.nextAttemptAt = undefined;
+    job.completedAt = new Date().toISOString();
+    this.save(job);
+    logger.info(`Recording job ${job.id} cancelled: ${reason}`);
+    // Files kept for a retry are no longer needed
+    void cleanupPipelineFiles(job.checkpoints);
+    this.notifyRunWaiters(job);
+  }
+
+  private clearRetryTimer(jobId: string): void {
+    const timer = this.retryTimers.get(jobId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(jobId);
+    }
+  }
+
+  /**
+   * Fetch Zoom's transcript before the pipeline runs, so a job that has it skips
+   * download, conversion and transcription. On failure the transcribe stage tries
+   * again and falls back to local transcription.
+   * @param job - Job with a transcript file and no transcript yet
+   */
+  private async useZoomTranscript(job: RecordingJob): Promise<void> {
+    try {
+      const accessToken = await getAccessToken(job.subscription);
+      job.checkpoints.transcript = await downloadZoomTranscript(job.transcriptFile!, accessToken);
+      job.checkpoints.transcriptionProvider = 'zoom';
+      this.save(job);
+    } catch (error) {
+      logger.warn(
+        `Zoom transcript not available for recording job ${job.id}, running full pipeline`,
+        {
+          message: (error as Error).message,
+        }
+      );
+    }
+  }
+
+  /**
+   * Run a failed job again. Its checkpoints are kept, so it resumes at the stage that failed.
+   * @param id - The job ID
+   * @param overrides - Options to change for the new run, such as dryRun
+   * @returns The requeued job, or undefined if it does not exist
+   */
+  retryJob(id: string, overrides: JobOptions = {}): RecordingJob | undefined {
+    const job = this.store.get(id);
+    if (!job) return undefined;
+
+    if (job.status !== 'failed') {
+      throw new Error(`Job ${id} is ${job.status}, only failed jobs can be retried`);
+    }
+    // Temporary files are deleted when a job fails for good, and an upload cannot be downloaded again
+    if (
+      job.source === 'upload' &&
+      job.checkpoints.transcript === undefined &&
+      !(job.checkpoints.downloadedFilePath && fs.existsSync(job.checkpoints.downloadedFilePath))
+    ) {
+      throw new Error(`The uploaded file of job ${id} was deleted, upload it again`);
+    }
+
+    // A manual retry gets a fresh budget of automatic retries
+    job.status = 'queued';
+    job.attempts = 0;
+    job.error = undefined;
+    job.nextAttemptAt = undefined;
+    job.completedAt = undefined;
+    if (Object.keys(overrides).length > 0) {
+      job.options = { ...job.options, ...overrides };
+    }
+
+    this.queue(job);
+    return job;
+  }
+
+  /**
+   * Wait until a job stops running: it settled, or a transient failure scheduled a retry
+   * @param id - The job ID
+   * @returns The job as it stands after the run
+   */
+  waitForJob(id: string): Promise<RecordingJob> {
+    const job = this.store.get(id);
+    if (!job) {
+      return Promise.reject(new Error(`Job ${id} not found`));
+    }
+    if (SETTLED_STATUSES.includes(job.status)) {
+      return Promise.resolve(job);
+    }
+
+    return new Promise((resolve) => {
+      this.runWaiters.set(id, [...(this.runWaiters.get(id) || []), resolve]);
+    });
+  }
+
+  private notifyRunWaiters(job: RecordingJob): void {
+    const waiters = this.runWaiters.get(job.id) || [];
+    this.runWaiters.delete(job.id);
+    waiters.forEach((resolve) => resolve(job));
+  }
+
+  getJob(id: string): RecordingJob | undefined {
+    return this.store.get(id);
+  }
+
+  listJobs(): RecordingJob[] {
+    return this.store.list();
+  }
+
+  private save(job: RecordingJob): void {
+    job.updatedAt = new Date().toISOString();
+    this.store.upsert(job);
+  }
+
+  private queue(job: RecordingJob): void {
+    this.save(job);
+    // Queued or running already; a second entry would run the job twice at once
+    if (this.pending.includes(job.id) || this.running.has(job.id)) {
+      return;
+    }
+    this.pending.push(job.id);
+    logger.info(`Queued recording job ${job.id} for meeting: ${job.topic}`);
+    this.drain();
+  }
+
+  /**
+   * Queue a job again once its retry time is reached
+   * @param job - Job with `nextAttemptAt` set
+   */
+  private scheduleAttempt(job: RecordingJob): void {
+    const delay = Math.max(new Date(job.nextAttemptAt!).getTime() - Date.now(), 0);
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(job.id);
+      this.queueDue(job);
+    }, delay);
+    timer.unref();
+
+    this.retryTimers.set(job.id, timer);
+  }
+
+  /**
+   * Queue a job whose retry time has come or whose wait for Zoom's transcript is over
+   * @param job - The job to run
+   */
+  private queueDue(job: RecordingJob): void {
+    if (job.status === 'awaiting_transcript') {
+      logger.info(
+        `No Zoom transcript for recording job ${job.id} after ${config.zoom.transcript.waitMinutes} minutes, running without it`
+      );
+      job.status = 'queued';
+    }
+    this.queue(job);
+  }
+
+  /**
+   * Exponential backoff delay before the next attempt of a job, with some jitter
+   * so jobs that failed together do not retry together
+   * @param attempts - Attempts made so far
+   */
+  private getRetryDelayMs(attempts: number): number {
+    const { baseDelaySeconds, maxDelaySeconds } = config.retry;
+    const delaySeconds = Math.min(baseDelaySeconds * 2 ** (attempts - 1), maxDelaySeconds);
+    return delaySeconds * 1000 * (0.8 + Math.random() * 0.4);
+  }
+
+  /**
+   * Start workers until the concurrency limit is reached
+   */
+  private drain(): void {
+    while (this.started && this.active < config.jobs.concurrency && this.pending.length > 0) {
+      const jobId = this.pending.shift()!;
+      const job = this.store.get(jobId);
+      if (!job || this.running.has(jobId)) continue;
+
+      this.active++;
+      this.runJob(job).finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Run the remaining pipeline stages of a job, checkpointing after each one
+   * @param job - The job to run
+   */
+  private async runJob(job: RecordingJob): Promise<void> {
+    // One worker per job, and settled jobs are not run again
+    if (this.running.has(job.id) || SETTLED_STATUSES.includes(job.status)) {
+      return;
+    }
+    this.running.add(job.id);
+    try {
+      await this.runPipelineForJob(job);
+    } catch (error) {
+      this.handleRunError(job, error as Error);
+    } finally {
+      this.running.delete(job.id);
+      this.cancelRequests.delete(job.id);
+      this.notifyRunWaiters(job);
+    }
+  }
+
+  /**
+   * Retry or fail a job whose run threw instead of reporting a failed stage,
+   * such as when a checkpoint could not be saved
+   * @param job - The job that was running
+   * @param error - What the run threw
+   */
+  private handleRunError(job: RecordingJob, error: Error): void {
+    logger.error(`Recording job ${job.id} stopped with an unexpected error`, {
+      message: error.message,
+      stack: error.stack,
+      attempt: job.attempts,
+    });
+
+    try {
+      job.error = error.message;
+      if (job.attempts < config.retry.maxAttempts) {
+        job.status = 'queued';
+        job.nextAttemptAt = new Date(Date.now() + this.getRetryDelayMs(job.attempts)).toISOString();
+        this.scheduleAttempt(job);
+      } else {
+        job.status = 'failed';
+        job.completedAt = new Date().toISOString();
+        void cleanupPipelineFiles(job.checkpoints);
+        addDeadLetter(job);
+      }
+      this.save(job);
+    } catch (saveError) {
+      logger.error(`Could not record the failure of recording job ${job.id}`, {
+        message: (saveError as Error).message,
+      });
+    }
+  }
+
+  private async runPipelineForJob(job: RecordingJob): Promise<void> {
+    job.attempts++;
+    job.nextAttemptAt = undefined;
+    logger.info(
+      `Processing recording job ${job.id} for meeting: ${job.topic} (attempt ${job.attempts})`
+    );
+
+    const provider = job.options?.transcriptionProvider;
+    if (
+      job.transcriptFile &&
+      job.checkpoints.transcript === undefined &&
+      (!provider || provider === 'zoom')
+    ) {
+      await this.useZoomTranscript(job);
+    }
+
+    const report = await runPipeline(
+      {
+        meetingId: job.meetingId,
+        topic: job.topic,
+        recordingFile: job.recordingFile,
+        transcriptFile: job.transcriptFile,
+        downloadToken: job.event?.download_token || job.event?.payload.object.download_token,
+        subscription: job.subscription,
+        transcriptionProvider: job.options?.transcriptionProvider,
+        language: job.options?.language,
+        skipClickUp: job.options?.skipClickUp,
+        dryRun: job.options?.dryRun,
+        requireReview: job.options?.requireReview,
+        jobId: job.id,
+      },
+      {
+        state: job.checkpoints,
+        onStageStart: (stage) => {
+          job.status = STAGE_STATUS[stage];
+          this.save(job);
+        },
+        onCheckpoint: () => this.save(job),
+        isCancelled: () => this.cancelRequests.has(job.id),
+        keepFilesOnFailure: true,
+      }
+    );
+
+    job.report = report;
+    job.completedAt = report.completedAt;
+
+    if (report.cancelled) {
+      this.markCancelled(job, job.cancelReason || 'Cancelled');
+    } else if (report.success && job.checkpoints.reviewItemIds?.length) {
+      job.status = 'awaiting_review';
+      logger.info(
+        `Recording job ${job.id} awaiting review of ${job.checkpoints.reviewItemIds.length} items`
+      );
+    } else if (report.success) {
+      job.status = 'done';
+      logger.info(`Recording job ${job.id} completed for meeting ${job.topic}`);
+    } else if (report.transient && job.attempts < config.retry.maxAttempts) {
+      const delayMs = this.getRetryDelayMs(job.attempts);
+      job.status = 'queued';
+      job.error = report.error;
+      job.completedAt = undefined;
+      job.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      logger.warn(
+        `Recording job ${job.id} failed during ${report.failedStage} with a transient error, retrying in ${Math.round(delayMs / 1000)}s`,
+        { message: report.error, attempt: job.attempts }
+      );
+      this.scheduleAttempt(job);
+    } else {
+      job.status = 'failed';
+      job.error = report.error;
+      logger.error(`Recording job ${job.id} failed during ${report.failedStage}`, {
+        message: report.error,
+      });
+      await cleanupPipelineFiles(job.checkpoints);
+      addDeadLetter(job);
+    }
+
+    this.save(job);
+  }
+}
+
+// Create singleton instance
+const recordingJobQueue = new RecordingJobQueue();
+
+export default recordingJobQueue;
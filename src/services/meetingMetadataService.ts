@@ -0,0 +1,44 @@
+import path from 'path';
+import config from '../config/env';
+import logger from '../config/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { MeetingLifecycleEvent, MeetingRecord } from '../types';
+
+const store = new JsonFileStore<MeetingRecord>(path.join(config.storage.dataDir, 'meetings.json'));
+
+/**
+ * Record the details of a meeting that ended. Redeliveries of the same
+ * meeting instance update its record.
+ * @param event - The meeting.ended event
+ * @returns The meeting record
+ */
+export const recordMeetingEnded = (event: MeetingLifecycleEvent): MeetingRecord => {
+  const meeting = event.payload.object;
+
+  const record = store.upsert({
+    id: meeting.uuid,
+    meetingId: meeting.id,
+    topic: meeting.topic,
+    ...(meeting.host_id && { hostId: meeting.host_id }),
+    ...(meeting.start_time && { startTime: meeting.start_time }),
+    ...(meeting.end_time && { endTime: meeting.end_time }),
+    ...(meeting.duration !== undefined && { duration: meeting.duration }),
+    ...(meeting.timezone && { timezone: meeting.timezone }),
+    ...(event.subscription && { subscription: event.subscription }),
+    endedAt: meeting.end_time || new Date(event.event_ts).toISOString(),
+  });
+
+  logger.info(`Recorded meeting ${record.meetingId} (${record.topic}) ended at ${record.endedAt}`);
+  return record;
+};
+
+/**
+ * List recorded meetings, most recently ended first
+ * @param meetingId - Only instances of this meeting ID
+ */
+export const listMeetingRecords = (meetingId?: string): MeetingRecord[] => {
+  return store
+    .list()
+    .filter((record) => !meetingId || record.meetingId === meetingId)
+    .sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+};
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config/env';
+import { processExtractedInfoWithRateLimit } from './clickupService';
+import { runPipeline, StageImplementation } from './pipelineService';
+import { ExtractedInfo, PipelineRunReport, PipelineStageName, PipelineState } from '../types';
+
+jest.mock('./clickupService');
+
+const mockedUpdate = jest.mocked(processExtractedInfoWithRateLimit);
+
+const INFOS: ExtractedInfo[] = [
+  { project: 'Prj', character: 'Jerry', task: 'Blocking' },
+  { project: 'Prj', character: 'Tom', task: 'Animation' },
+];
+
+const stageStatuses = (report: PipelineRunReport): Record<string, string> =>
+  Object.fromEntries(report.stages.map((stage) => [stage.name, stage.status]));
+
+let fileCount = 0;
+
+const tempFile = (name: string): string => {
+  const filePath = path.join(config.storage.dataDir, `${++fileCount}-${name}`);
+  fs.writeFileSync(filePath, 'audio');
+  return filePath;
+};
+
+// Stages that work without external services
+const fakeStages = (
+  failures: Partial<Record<PipelineStageName, Error>> = {}
+): Partial<Record<PipelineStageName, StageImplementation>> => {
+  const stage =
+    (name: PipelineStageName, run: StageImplementation): StageImplementation =>
+    async (ctx) => {
+      if (failures[name]) {
+        throw failures[name];
+      }
+      return run(ctx);
+    };
+
+  return {
+    download: stage('download', async ({ state }) => {
+      state.downloadedFilePath = tempFile('recording.m4a');
+    }),
+    convert: stage('convert', async ({ state }) => {
+      state.mp3FilePath = tempFile('recording.mp3');
+    }),
+    transcribe: stage('transcribe', async ({ state }) => {
+      state.transcript = 'Character: Jerry needs Task: Blocking';
+    }),
+    extract: stage('extract', async ({ state }) => {
+      state.extractedInfo = INFOS;
+    }),
+  };
+};
+
+describe('runPipeline', () => {
+  beforeEach(() => {
+    mockedUpdate.mockReset();
+    mockedUpdate.mockImplementation(async (infos, onResult) => {
+      for (const info of infos) {
+        onResult?.(info, { character: info.character, task: info.task, status: 'success' });
+      }
+      return [];
+    });
+  });
+
+  it('runs every stage and removes the temporary files', async () => {
+    const state: PipelineState = {};
+
+    const report = await runPipeline(
+      { sourceUrl: 'https://example.com/a.m4a' },
+      {
+        state,
+        stages: fakeStages(),
+      }
+    );
+
+    expect(report.success).toBe(true);
+    expect(Object.values(stageStatuses(report))).toEqual(Array(5).fill('completed'));
+    expect(fs.existsSync(state.downloadedFilePath!)).toBe(false);
+    expect(fs.existsSync(state.mp3FilePath!)).toBe(false);
+  });
+
+  it('reports the failed stage and resumes there with the saved state', async () => {
+    const state: PipelineState = {};
+    const failed = await runPipeline(
+      {},
+      {
+        state,
+        stages: fakeStages({ extract: new Error('Gemini unavailable') }),
+        keepFilesOnFailure: true,
+      }
+    );
+
+    expect(failed).toMatchObject({
+      success: false,
+      failedStage: 'extract',
+      error: 'Gemini unavailable',
+    });
+    expect(state.transcript).toBeDefined();
+
+    const started: PipelineStageName[] = [];
+    const resumed = await runPipeline(
+      {},
+      { state, stages: fakeStages(), onStageStart: (stage) => started.push(stage) }
+    );
+
+    expect(resumed.success).toBe(true);
+    expect(started).toEqual(['extract', 'update_clickup']);
+  });
+
+  it('keeps an uploaded file after a failed attempt so the retry can convert it', async () => {
+    const upload = tempFile('upload.wav');
+    const state: PipelineState = { downloadedFilePath: upload };
+
+    const failed = await runPipeline(
+      {},
+      {
+        state,
+        stages: fakeStages({ convert: new Error('ffmpeg crashed') }),
+        keepFilesOnFailure: true,
+      }
+    );
+    expect(failed.failedStage).toBe('convert');
+    expect(fs.existsSync(upload)).toBe(true);
+
+    const started: PipelineStageName[] = [];
+    const retried = await runPipeline(
+      {},
+      { state, stages: fakeStages(), onStageStart: (stage) => started.push(stage) }
+    );
+
+    expect(retried.success).toBe(true);
+    expect(started[0]).toBe('convert');
+    expect(fs.existsSync(upload)).toBe(false);
+  });
+
+  it('removes the files of a failed run unless asked to keep them', async () => {
+    const upload = tempFile('upload.wav');
+
+    await runPipeline(
+      {},
+      {
+        state: { downloadedFilePath: upload },
+        stages: fakeStages({ convert: new Error('ffmpeg crashed') }),
+      }
+    );
+
+    expect(fs.existsSync(upload)).toBe(false);
+  });
+
+  it('does not update ClickUp again for items applied before a failure', async () => {
+    const state: PipelineState = { transcript: 'text', extractedInfo: INFOS };
+    mockedUpdate.mockImplementationOnce(async (infos, onResult) => {
+      onResult?.(infos[0], { character: 'Jerry', task: 'Blocking', status: 'success' });
+      onResult?.(infos[1], { character: 'Tom', task: 'Animation', status: 'error', error: '429' });
+      return [];
+    });
+
+    const failed = await runPipeline({}, { state });
+    expect(failed.failedStage).toBe('update_clickup');
+    expect(state.clickUpUpdatedIndexes).toEqual([0]);
+
+    const resumed = await runPipeline({}, { state });
+
+    expect(resumed.success).toBe(true);
+    expect(mockedUpdate).toHaveBeenLastCalledWith([INFOS[1]], expect.any(Function), {
+      dryRun: undefined,
+    });
+    expect(resumed.clickUpUpdates.map((update) => update.character)).toEqual(['Jerry', 'Tom']);
+  });
+
+  it('stops before the next stage when cancelled', async () => {
+    let cancelled = false;
+    const stages = fakeStages();
+    const transcribe = stages.transcribe!;
+    stages.transcribe = async (ctx) => {
+      cancelled = true;
+      return transcribe(ctx);
+    };
+
+    const report = await runPipeline({}, { stages, isCancelled: () => cancelled });
+
+    expect(report).toMatchObject({ success: false, cancelled: true });
+    expect(stageStatuses(report).extract).toBeUndefined();
+  });
+});
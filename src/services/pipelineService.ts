@@ -0,0 +1,340 @@
+import fs from 'fs';
+import config from '../config/env';
+import logger from '../config/logger';
+import { downloadFile, convertToMp3, cleanupFiles } from './audioService';
+import { transcribeAudio } from './transcriptionService';
+import { extractInformationWithGemini } from './geminiService';
+import { processExtractedInfoWithRateLimit } from './clickupService';
+import { createReviewItems } from './reviewService';
+import { getAccessToken } from './zoomAuthService';
+import { downloadZoomTranscript } from './zoomTranscriptionService';
+import { getErrorChain, isTransientError } from '../utils/errors';
+import {
+  ApiError,
+  PipelineInput,
+  PipelineRunReport,
+  PipelineStageName,
+  PipelineStageReport,
+  PipelineState,
+} from '../types';
+
+/**
+ * Data available to every stage of a pipeline run
+ */
+export interface PipelineContext {
+  input: PipelineInput;
+  state: PipelineState;
+  // Persist progress made in the middle of a long stage
+  checkpoint: () => void;
+}
+
+/**
+ * A stage implementation does its work, stores its output in `ctx.state`
+ * and returns a short summary for the run report
+ */
+export type StageImplementation = (ctx: PipelineContext) => Promise<Record<string, any> | void>;
+
+interface PipelineStage {
+  name: PipelineStageName;
+  // Whether the stage output is already present in the state (for resumed runs)
+  isComplete: (state: PipelineState) => boolean;
+  // Whether the input asks for the stage to run at all
+  shouldRun?: (input: PipelineInput) => boolean;
+  run: StageImplementation;
+}
+
+export interface PipelineOptions {
+  // Previous state to resume from
+  state?: PipelineState;
+  // Replace the default implementation of individual stages
+  stages?: Partial<Record<PipelineStageName, StageImplementation>>;
+  onStageStart?: (stage: PipelineStageName) => void;
+  onCheckpoint?: (state: PipelineState) => void;
+  // Checked before each stage; the run stops when it returns true
+  isCancelled?: () => boolean;
+  // Keep the temporary files of a failed run so a retry resumes at the failed
+  // stage; the caller removes them with `cleanupPipelineFiles` once it gives up
+  keepFilesOnFailure?: boolean;
+}
+
+const fileExists = (filePath?: string): boolean => !!filePath && fs.existsSync(filePath);
+
+const download: StageImplementation = async ({ input, state }) => {
+  const url = input.recordingFile?.download_url || input.sourceUrl;
+  if (!url) {
+    throw new Error('No audio recording found');
+  }
+
+  logger.info(`Downloading recording from URL: ${url}`);
+  state.downloadedFilePath = await downloadFile(url, input.downloadToken);
+  return { filePath: state.downloadedFilePath };
+};
+
+const convert: StageImplementation = async ({ state }) => {
+  logger.info(`Converting downloaded file to MP3: ${state.downloadedFilePath}`);
+  state.mp3FilePath = await convertToMp3(state.downloadedFilePath!);
+  return { filePath: state.mp3FilePath };
+};
+
+const transcribe: StageImplementation = async ({ input, state }) => {
+  const provider = input.transcriptionProvider;
+
+  // Zoom's own transcript, once recording.transcript_completed has delivered it
+  if (input.transcriptFile && (!provider || provider === 'zoom')) {
+    try {
+      const accessToken = await getAccessToken(input.subscription);
+      state.transcript = await downloadZoomTranscript(input.transcriptFile, accessToken);
+      state.transcriptionProvider = 'zoom';
+      return { provider: 'zoom', length: state.transcript.length };
+    } catch (error) {
+      if (provider === 'zoom') {
+        throw error;
+      }
+      logger.warn('Zoom transcription unavailable, using local transcription', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  if (provider === 'zoom') {
+    throw new Error(
+      input.recordingFile
+        ? 'Zoom has not produced a transcript of this recording'
+        : 'Zoom transcription requires a Zoom recording'
+    );
+  }
+
+  const result = await transcribeAudio(state.mp3FilePath!, provider, input.language);
+  state.transcript = result.text;
+  state.transcriptionProvider = result.provider;
+  return {
+    provider: result.provider,
+    length: result.text.length,
+    wordCount: result.wordCount,
+    processingTime: result.processingTime,
+  };
+};
+
+const extract: StageImplementation = async ({ state }) => {
+  logger.info('Extracting information from transcript');
+  state.extractedInfo = await extractInformationWithGemini(state.transcript!);
+  return { count: state.extractedInfo.length };
+};
+
+const updateClickUp: StageImplementation = async ({ input, state, checkpoint }) => {
+  const extractedInfos = state.extractedInfo || [];
+
+  if (extractedInfos.length === 0) {
+    logger.info(
+      `No character/task combinations found in recording from meeting: ${input.topic || 'unknown'}`
+    );
+    return { updated: 0, failed: 0 };
+  }
+
+  // Hold items for human approval; approved items are applied by the review queue
+  if (input.requireReview ?? config.review.enabled) {
+    if (!state.reviewItemIds) {
+      const items = createReviewItems(extractedInfos, {
+        jobId: input.jobId,
+        meetingId: input.meetingId,
+        topic: input.topic,
+        ...((input.dryRun ?? config.clickup.dryRun) && { dryRun: true }),
+      });
+      state.reviewItemIds = items.map((item) => item.id);
+    }
+    return { pendingReview: state.reviewItemIds.length };
+  }
+
+  // Skip items already applied in a previous run to avoid duplicate comments
+  const updated = new Set(state.clickUpUpdatedIndexes || []);
+  const remaining = extractedInfos.filter((_info, index) => !updated.has(index));
+  state.clickUpUpdates = (state.clickUpUpdates || []).filter((r) => r.status === 'success');
+
+  await processExtractedInfoWithRateLimit(
+    remaining,
+    (info, result) => {
+      state.clickUpUpdates!.push(result);
+      // Planned updates were not applied, so a real run must still make them
+      if (result.status === 'success' && !result.dryRun) {
+        updated.add(extractedInfos.indexOf(info));
+        state.clickUpUpdatedIndexes = Array.from(updated);
+      }
+      checkpoint();
+    },
+    { dryRun: input.dryRun }
+  );
+
+  // Fail the stage so the job is retried; items already applied are skipped next time
+  const errors = state.clickUpUpdates.filter((r) => r.status === 'error');
+  if (errors.length > 0) {
+    throw new Error(
+      `ClickUp update failed for ${errors.length} of ${extractedInfos.length} items: ${errors
+        .map((r) => `${r.character}: ${r.error}`)
+        .join('; ')}`
+    );
+  }
+
+  const dryRun = state.clickUpUpdates.some((r) => r.dryRun);
+  return { [dryRun ? 'planned' : 'updated']: state.clickUpUpdates.length };
+};
+
+const DEFAULT_STAGES: PipelineStage[] = [
+  {
+    name: 'download',
+    isComplete: (state) => fileExists(state.downloadedFilePath),
+    run: download,
+  },
+  { name: 'convert', isComplete: (state) => fileExists(state.mp3FilePath), run: convert },
+  {
+    name: 'transcribe',
+    isComplete: (state) => state.transcript !== undefined,
+    run: transcribe,
+  },
+  {
+    name: 'extract',
+    isComplete: (state) => state.extractedInfo !== undefined,
+    run: extract,
+  },
+  {
+    name: 'update_clickup',
+    isComplete: () => false,
+    shouldRun: (input) => !input.skipClickUp,
+    run: updateClickUp,
+  },
+];
+
+/**
+ * Delete the temporary files of a run: the downloaded recording and its MP3
+ * @param state - State of the run
+ */
+export const cleanupPipelineFiles = async (state: PipelineState): Promise<void> => {
+  const files = [state.downloadedFilePath, state.mp3FilePath].filter((file): file is string =>
+    fileExists(file)
+  );
+  if (files.length > 0) {
+    logger.info(`Cleaning up ${files.length} temporary files`);
+    await cleanupFiles(files);
+  }
+};
+
+/**
+ * Results of a run as returned by the API: extracted items, ClickUp updates
+ * and, for dry runs, the descriptions of the planned ClickUp changes
+ * @param report - Pipeline run report
+ */
+export const getReportResults = (report: PipelineRunReport) => ({
+  extractedInfo: report.extractedInfo,
+  clickUpUpdates: report.clickUpUpdates,
+  plan: report.clickUpUpdates
+    .flatMap((update) => update.actions || [])
+    .filter((action) => action.dryRun)
+    .map((action) => action.description),
+});
+
+/**
+ * Run a recording through download, conversion, transcription, extraction and
+ * ClickUp update. Stages whose output is already in the state are skipped, so a
+ * persisted state can be passed back in to resume an interrupted run.
+ * @param input - Where the recording comes from
+ * @param options - Resume state, stage overrides and progress hooks
+ * @returns Structured report of the run; failures are reported, not thrown
+ */
+export const runPipeline = async (
+  input: PipelineInput,
+  options: PipelineOptions = {}
+): Promise<PipelineRunReport> => {
+  const state: PipelineState = options.state || {};
+  const startedAt = new Date();
+  const stageReports: PipelineStageReport[] = [];
+  const ctx: PipelineContext = {
+    input,
+    state,
+    checkpoint: () => options.onCheckpoint?.(state),
+  };
+
+  const stages = DEFAULT_STAGES.map((stage) => ({
+    ...stage,
+    run: options.stages?.[stage.name] || stage.run,
+  }));
+
+  // Resume after the last stage whose output is still available
+  let startIndex = 0;
+  stages.forEach((stage, index) => {
+    if (stage.isComplete(state)) {
+      startIndex = index + 1;
+    }
+  });
+
+  let failedStage: PipelineStageName | undefined;
+  let failure: unknown;
+  let cancelled = false;
+
+  try {
+    for (const [index, stage] of stages.entries()) {
+      if (index < startIndex || (stage.shouldRun && !stage.shouldRun(input))) {
+        stageReports.push({ name: stage.name, status: 'skipped', durationMs: 0 });
+        continue;
+      }
+
+      if (options.isCancelled?.()) {
+        logger.info(`Pipeline cancelled before stage ${stage.name}`);
+        cancelled = true;
+        break;
+      }
+
+      options.onStageStart?.(stage.name);
+      const stageStart = Date.now();
+
+      try {
+        const output = await stage.run(ctx);
+        stageReports.push({
+          name: stage.name,
+          status: 'completed',
+          startedAt: new Date(stageStart).toISOString(),
+          durationMs: Date.now() - stageStart,
+          ...(output && { output }),
+        });
+        ctx.checkpoint();
+      } catch (err: unknown) {
+        const error = err as ApiError;
+        stageReports.push({
+          name: stage.name,
+          status: 'failed',
+          startedAt: new Date(stageStart).toISOString(),
+          durationMs: Date.now() - stageStart,
+          error: error.message,
+        });
+        failedStage = stage.name;
+        failure = error;
+        logger.error(`Pipeline stage ${stage.name} failed`, {
+          message: error.message,
+          stack: error.stack,
+        });
+        break;
+      }
+    }
+  } finally {
+    // Temporary files are not needed once the run is over, unless it is retried
+    if (!failedStage || !options.keepFilesOnFailure) {
+      await cleanupPipelineFiles(state);
+    }
+  }
+
+  const completedAt = new Date();
+  return {
+    success: !failedStage && !cancelled,
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    durationMs: completedAt.getTime() - startedAt.getTime(),
+    stages: stageReports,
+    extractedInfo: state.extractedInfo || [],
+    clickUpUpdates: state.clickUpUpdates || [],
+    ...(failedStage && {
+      failedStage,
+      error: (failure as ApiError).message,
+      errorChain: getErrorChain(failure),
+      transient: isTransientError(failure),
+    }),
+    ...(cancelled && { cancelled }),
+  };
+};
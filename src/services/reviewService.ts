@@ -0,0 +1,312 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import config from '../config/env';
+import logger from '../config/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { updateClickUpTask } from './clickupService';
+import {
+  ApiError,
+  ClickUpAction,
+  ClickUpUpdateResult,
+  ExtractedInfo,
+  ReviewItem,
+  ReviewStatus,
+} from '../types';
+
+export type ReviewEdits = Partial<Pick<ExtractedInfo, 'character' | 'task' | 'context'>>;
+
+interface ReviewContext {
+  jobId?: string;
+  meetingId?: string;
+  topic?: string;
+  // The run holding the items is a dry run
+  dryRun?: boolean;
+}
+
+interface ReviewDecision {
+  reviewer?: string;
+  reason?: string;
+  edits?: ReviewEdits;
+  dryRun?: boolean;
+}
+
+type ReviewListener = (item: ReviewItem) => void;
+
+const EDITABLE_FIELDS: (keyof ReviewEdits)[] = ['character', 'task', 'context'];
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const store = new JsonFileStore<ReviewItem>(path.join(config.storage.dataDir, 'reviews.json'));
+const listeners: ReviewListener[] = [];
+// Items whose approval is being written to ClickUp
+const applying = new Set<string>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Build an error carrying the HTTP status the controller should answer with
+ */
+const reviewError = (message: string, status: number): ApiError => {
+  const error: ApiError = new Error(message);
+  error.status = status;
+  return error;
+};
+
+const notifyResolved = (item: ReviewItem): void => {
+  for (const listener of listeners) {
+    try {
+      listener(item);
+    } catch (error) {
+      logger.error('Error in review listener', { error: (error as Error).message });
+    }
+  }
+};
+
+/**
+ * Mark pending items past their expiry time as expired
+ * @returns Number of items expired
+ */
+export const expirePendingItems = (): number => {
+  const now = Date.now();
+  let expired = 0;
+
+  for (const item of store.list()) {
+    if (
+      item.status === 'pending' &&
+      !applying.has(item.id) &&
+      new Date(item.expiresAt).getTime() <= now
+    ) {
+      item.status = 'expired';
+      store.upsert(item);
+      notifyResolved(item);
+      expired++;
+    }
+  }
+
+  if (expired > 0) {
+    logger.info(`Expired ${expired} pending review items`);
+  }
+  return expired;
+};
+
+/**
+ * Get a pending item, failing if it does not exist or was already reviewed
+ */
+const getPendingItem = (id: string): ReviewItem => {
+  expirePendingItems();
+
+  const item = store.get(id);
+  if (!item) {
+    throw reviewError(`Review item not found: ${id}`, 404);
+  }
+  if (item.status !== 'pending') {
+    throw reviewError(`Review item ${id} is already ${item.status}`, 409);
+  }
+  if (applying.has(id)) {
+    throw reviewError(`Review item ${id} is being applied to ClickUp`, 409);
+  }
+  return item;
+};
+
+/**
+ * Apply reviewer edits to an item after validating them
+ */
+const applyEdits = (item: ReviewItem, edits: ReviewEdits): void => {
+  for (const field of EDITABLE_FIELDS) {
+    const value = edits[field];
+    if (value === undefined) continue;
+
+    if (typeof value !== 'string' || (field !== 'context' && value.trim() === '')) {
+      throw reviewError(`Invalid value for "${field}"`, 400);
+    }
+    item.info[field] = value.trim();
+  }
+};
+
+/**
+ * Register a callback for items that leave the pending state
+ * @param listener - Called with the approved, rejected or expired item
+ */
+export const onReviewResolved = (listener: ReviewListener): void => {
+  listeners.push(listener);
+};
+
+/**
+ * Hold extracted items for review instead of writing them to ClickUp
+ * @param infos - Extracted items
+ * @param context - Job and meeting the items came from
+ * @returns The created pending items
+ */
+export const createReviewItems = (infos: ExtractedInfo[], context: ReviewContext): ReviewItem[] => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.review.expiryHours * 60 * 60 * 1000);
+
+  const items = infos.map((info) =>
+    store.upsert({
+      id: randomUUID(),
+      ...context,
+      status: 'pending',
+      info: { ...info },
+      original: { ...info },
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    })
+  );
+
+  logger.info(`Created ${items.length} review items`, { jobId: context.jobId });
+  return items;
+};
+
+/**
+ * List review items, newest first
+ * @param filter - Optional status and job filters
+ */
+export const listReviewItems = (filter: { status?: ReviewStatus; jobId?: string } = {}) => {
+  expirePendingItems();
+
+  return store
+    .list()
+    .filter((item) => !filter.status || item.status === filter.status)
+    .filter((item) => !filter.jobId || item.jobId === filter.jobId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Count the items of a job still waiting for review
+ * @param jobId - The job ID
+ */
+export const countPendingItems = (jobId: string): number => {
+  return store.list().filter((item) => item.jobId === jobId && item.status === 'pending').length;
+};
+
+export const getReviewItem = (id: string): ReviewItem | undefined => {
+  expirePendingItems();
+  return store.get(id);
+};
+
+/**
+ * Edit the character, task or context of a pending item
+ */
+export const editReviewItem = (id: string, edits: ReviewEdits, reviewer?: string): ReviewItem => {
+  const item = getPendingItem(id);
+  applyEdits(item, edits);
+
+  logger.info(`Review item ${id} edited`, { reviewer, info: item.info });
+  return store.upsert(item);
+};
+
+/**
+ * Write a reviewed item to ClickUp
+ * @param info - The item as approved
+ * @param dryRun - Only plan the changes
+ */
+const applyToClickUp = async (
+  info: ExtractedInfo,
+  dryRun?: boolean
+): Promise<ClickUpUpdateResult> => {
+  try {
+    const update = await updateClickUpTask(info, { dryRun });
+    return {
+      character: info.character,
+      task: info.task,
+      status: 'success',
+      ...(update.taskId && { taskId: update.taskId }),
+      actions: update.actions,
+      ...(update.dryRun && { dryRun: true }),
+    };
+  } catch (err: unknown) {
+    const error = err as ApiError & { actions?: ClickUpAction[] };
+    return {
+      character: info.character,
+      task: info.task,
+      status: 'error',
+      actions: error.actions || [],
+      error: error.message,
+    };
+  }
+};
+
+/**
+ * Approve a pending item, optionally with edits, and apply it to ClickUp.
+ * With `dryRun` the planned changes are returned and the item stays pending.
+ * Items held by a dry run are approved with the planned changes, unless the
+ * decision sets `dryRun` to false. The item is only approved once ClickUp accepted the update; when the update
+ * fails it stays pending with the error, so it can be approved again.
+ */
+export const approveReviewItem = async (
+  id: string,
+  decision: ReviewDecision = {}
+): Promise<ReviewItem> => {
+  const item = getPendingItem(id);
+  if (decision.edits) {
+    applyEdits(item, decision.edits);
+  }
+
+  if (decision.dryRun) {
+    item.clickUpUpdate = await applyToClickUp(item.info, true);
+    return store.upsert(item);
+  }
+
+  const dryRun = decision.dryRun ?? item.dryRun;
+  logger.info(`Review item ${id} approved, ${dryRun ? 'planning' : 'applying'} ClickUp update`, {
+    reviewer: decision.reviewer,
+  });
+
+  applying.add(id);
+  try {
+    item.clickUpUpdate = await applyToClickUp(item.info, dryRun);
+  } finally {
+    applying.delete(id);
+  }
+
+  if (item.clickUpUpdate.status === 'error') {
+    store.upsert(item);
+    logger.warn(`Review item ${id} stays pending, ClickUp update failed`, {
+      error: item.clickUpUpdate.error,
+    });
+    throw reviewError(`ClickUp update failed: ${item.clickUpUpdate.error}`, 502);
+  }
+
+  item.status = 'approved';
+  item.reviewer = decision.reviewer;
+  item.reviewedAt = new Date().toISOString();
+  store.upsert(item);
+  notifyResolved(item);
+  return item;
+};
+
+/**
+ * Reject a pending item so it is never written to ClickUp
+ */
+export const rejectReviewItem = (id: string, decision: ReviewDecision = {}): ReviewItem => {
+  const item = getPendingItem(id);
+
+  item.status = 'rejected';
+  item.reviewer = decision.reviewer;
+  item.reason = decision.reason;
+  item.reviewedAt = new Date().toISOString();
+  store.upsert(item);
+
+  logger.info(`Review item ${id} rejected`, {
+    reviewer: decision.reviewer,
+    reason: decision.reason,
+  });
+  notifyResolved(item);
+  return item;
+};
+
+/**
+ * Periodically expire pending items
+ */
+export const startReviewExpiry = (): void => {
+  if (sweepTimer) return;
+
+  expirePendingItems();
+  sweepTimer = setInterval(expirePendingItems, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+};
+
+export const stopReviewExpiry = (): void => {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
@@ -3,7 +3,9 @@ import { AssemblyAI } from 'assemblyai';
 import { OpenAI } from 'openai';
 import config from '../config/env';
 import logger from '../config/logger';
-import { ApiError } from '../types';
+import { ApiError, TranscriptionProvider, TranscriptionResult } from '../types';
+import { wrapError } from '../utils/errors';
+import { textPreview } from '../utils/logRedaction';
 
 // Initialize API clients
 const openai = new OpenAI({ apiKey: config.openai.apiKey });
@@ -15,6 +17,9 @@ const assemblyai = new AssemblyAI({
 const MAX_RETRIES = 2;
 const RETRY_DELAY = 75; // ms
 
+// Most of our meetings are held in Spanish
+const DEFAULT_LANGUAGE = 'es';
+
 /**
  * Sleep utility function
  * @param ms - Milliseconds to sleep
@@ -51,7 +56,7 @@ async function transcribeWithStandardDetection(filePath: string): Promise<string
     }
     
     logger.info(`Transcription length: ${transcript.text.length} characters`);
-    logger.info(`First 100 chars of transcription: ${transcript.text.substring(0, 100)}...`);
+    logger.info(`Transcription preview: ${textPreview(transcript.text, 100)}`);
     logger.info(`Detected language: ${transcript.language_code || 'not specified'}, confidence: ${transcript.language_confidence || 'not specified'}`);
     
     return transcript.text;
@@ -63,51 +68,88 @@ async function transcribeWithStandardDetection(filePath: string): Promise<string
 }
 
 /**
- * Transcribe audio using AssemblyAI's standard model with explicit Spanish setting
+ * Transcribe audio using AssemblyAI's standard model with an explicit language setting
  * @param filePath - Path to audio file
+ * @param languageCode - Language of the audio (defaults to Spanish)
  * @returns Transcription text
  */
-async function transcribeWithStandardSpanish(filePath: string): Promise<string> {
-  logger.info('Starting transcription with AssemblyAI standard model with explicit Spanish setting');
+async function transcribeWithStandardLanguage(
+  filePath: string,
+  languageCode = DEFAULT_LANGUAGE
+): Promise<string> {
+  logger.info(
+    `Starting transcription with AssemblyAI standard model with explicit language setting: ${languageCode}`
+  );
   
   try {
     const transcript = await assemblyai.transcripts.transcribe({
       audio: filePath,
-      language_code: 'es',
+      language_code: languageCode,
       speaker_labels: true, // Enable speaker diarization
       punctuate: true,      // Ensure proper punctuation
       format_text: true     // Format the text for readability
     });
     
     if (transcript.status === 'error') {
-      throw new Error(`Standard transcription with Spanish setting failed: ${transcript.error}`);
+      throw new Error(
+        `Standard transcription with language ${languageCode} failed: ${transcript.error}`
+      );
     }
     
-    logger.info('Standard transcription with Spanish setting completed successfully');
+    logger.info(`Standard transcription with language ${languageCode} completed successfully`);
     
     if (!transcript.text) {
       throw new Error('No text returned from standard transcription');
     }
     
     logger.info(`Transcription length: ${transcript.text.length} characters`);
-    logger.info(`First 100 chars of transcription: ${transcript.text.substring(0, 100)}...`);
+    logger.info(`Transcription preview: ${textPreview(transcript.text, 100)}`);
     
     return transcript.text;
   } catch (err: unknown) {
     const error = err as ApiError;
-    logger.error('Error with standard transcription using Spanish setting', { message: error.message });
+    logger.error(`Error with standard transcription using language ${languageCode}`, {
+      message: error.message,
+    });
     throw error;
   }
 }
 
+/**
+ * Build a transcription result
+ * @param text - Transcription text
+ * @param provider - Service that produced the text
+ * @param startTime - When transcription started (ms)
+ */
+const toResult = (
+  text: string,
+  provider: TranscriptionProvider,
+  startTime: number
+): TranscriptionResult => ({
+  text,
+  wordCount: text.split(/\s+/).filter(Boolean).length,
+  processingTime: Date.now() - startTime,
+  provider,
+});
+
 /**
  * Multi-service transcription with fallbacks
  * @param filePath - Path to the audio file
- * @returns Transcription text
+ * @param provider - Optional provider to use exclusively, without falling back to others
+ * @param language - Optional language code of the audio; skips language detection
+ * @returns Transcription text and the provider that produced it
  */
-export const transcribeAudio = async (filePath: string): Promise<string> => {
+export const transcribeAudio = async (
+  filePath: string,
+  provider?: Exclude<TranscriptionProvider, 'zoom'>,
+  language?: string
+): Promise<TranscriptionResult> => {
+  const startTime = Date.now();
+
   // Try OpenAI Whisper API first if key is available
-  if (config.openai.apiKey) {
+  if (provider === 'assemblyai') {
+    logger.info('AssemblyAI transcription requested, skipping OpenAI');
+  } else if (config.openai.apiKey) {
     let retries = 0;
     
     while (retries < MAX_RETRIES) {
@@ -127,12 +169,12 @@ export const transcribeAudio = async (filePath: string): Promise<string> => {
         const transcription = await openai.audio.transcriptions.create({
           file: fs.createReadStream(filePath),
           model: "whisper-1",
-          language: "es", // Explicitly set Spanish
+          language: language || DEFAULT_LANGUAGE, // Explicitly set the language
           response_format: "text"
         });
         
         logger.info('OpenAI transcription completed successfully');
-        return transcription;
+        return toResult(transcription, 'openai', startTime);
       } catch (err: unknown) {
         const error = err as ApiError;
         retries++;
@@ -150,18 +192,34 @@ export const transcribeAudio = async (filePath: string): Promise<string> => {
     logger.warn('OpenAI API key not configured, skipping OpenAI transcription');
   }
   
+  if (provider === 'openai') {
+    throw new Error('OpenAI transcription failed and fallback providers are disabled');
+  }
+
   // Check if AssemblyAI API key is available
   if (!config.assemblyai.apiKey) {
     logger.error('AssemblyAI API key not configured, transcription cannot proceed');
     throw new Error('AssemblyAI API key is required for transcription');
   }
   
+  // A known language does not need detection
+  if (language) {
+    try {
+      const transcription = await transcribeWithStandardLanguage(filePath, language);
+      return toResult(transcription, 'assemblyai', startTime);
+    } catch (err: unknown) {
+      const error = err as ApiError;
+      logger.error(`AssemblyAI transcription in ${language} failed`, { message: error.message });
+      throw wrapError('All transcription methods failed', error);
+    }
+  }
+
   // Strategy 1: Try with language detection first (Standard model)
   try {
     logger.info('Trying transcription with standard model and language detection');
     const standardDetectionTranscription = await transcribeWithStandardDetection(filePath);
     logger.info('Successfully transcribed with standard model and language detection');
-    return standardDetectionTranscription;
+    return toResult(standardDetectionTranscription, 'assemblyai', startTime);
   } catch (err: unknown) {
     const error = err as ApiError;
     logger.warn('Standard transcription with language detection failed, trying explicit Spanish', { message: error.message });
@@ -170,12 +228,12 @@ export const transcribeAudio = async (filePath: string): Promise<string> => {
   // Strategy 2: Try forcing Spanish with Standard model
   try {
     logger.info('Trying transcription with standard model and explicit Spanish setting');
-    const standardSpanishTranscription = await transcribeWithStandardSpanish(filePath);
+    const standardSpanishTranscription = await transcribeWithStandardLanguage(filePath);
     logger.info('Successfully transcribed with standard model and Spanish setting');
-    return standardSpanishTranscription;
+    return toResult(standardSpanishTranscription, 'assemblyai', startTime);
   } catch (err: unknown) {
     const error = err as ApiError;
     logger.error('All AssemblyAI transcription attempts failed', { message: error.message });
-    throw new Error('All transcription methods failed');
+    throw wrapError('All transcription methods failed', error);
   }
 }
\ No newline at end of file
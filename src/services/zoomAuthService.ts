@@ -1,77 +1,124 @@
 import axios from 'axios';
 import config from '../config/env';
 import logger from '../config/logger';
-import { ApiError } from '../types';
+import { ApiError, ZoomCredentials } from '../types';
 
-// Token cache
-let accessToken: string = '';
-let tokenExpiry: number = 0;
+interface CachedToken {
+  accessToken: string;
+  tokenExpiry: number;
+}
+
+// Token cache, one entry per OAuth app and account
+const tokens = new Map<string, CachedToken>();
+
+/**
+ * Get the credentials of a subscription
+ * @param subscription - Subscription name; the first configured subscription when omitted
+ * @returns The subscription's OAuth credentials
+ * @throws ApiError with status 400 for a subscription that is not configured
+ */
+export const getCredentials = (subscription?: string): ZoomCredentials => {
+  const subscriptions = config.zoom.subscriptions;
+  if (!subscription) {
+    return subscriptions[0];
+  }
+
+  const match = subscriptions.find((s) => s.name === subscription);
+  if (!match) {
+    // Another account's credentials would fail at Zoom or, worse, reach the wrong account
+    const error: ApiError = new Error(`Unknown Zoom subscription "${subscription}"`);
+    error.status = 400;
+    throw error;
+  }
+  return match;
+};
+
+const getCacheKey = (credentials: ZoomCredentials): string =>
+  `${credentials.accountId}:${credentials.clientId}`;
 
 /**
  * Get a valid Zoom OAuth access token
+ * @param subscription - Subscription whose credentials to use; the default when omitted
  * @returns Access token string
  */
-export const getAccessToken = async (): Promise<string> => {
+export const getAccessToken = async (subscription?: string): Promise<string> => {
+  const credentials = getCredentials(subscription);
+  const cacheKey = getCacheKey(credentials);
+
   try {
     // Check if we already have a valid token
     const currentTime = Math.floor(Date.now() / 1000);
-    if (accessToken && tokenExpiry > currentTime + 60) {
-      logger.debug('Using cached Zoom API access token');
-      return accessToken;
+    const cached = tokens.get(cacheKey);
+    if (cached && cached.tokenExpiry > currentTime + 60) {
+      logger.debug('Using cached Zoom API access token', { subscription });
+      return cached.accessToken;
     }
 
-    logger.info('Obtaining new Zoom API access token');
-    
+    logger.info('Obtaining new Zoom API access token', { subscription });
+
     // Create basic auth string from client ID and secret
-    const credentials = Buffer.from(
-      `${config.zoom.clientId}:${config.zoom.clientSecret}`
-    ).toString('base64');
-    
+    const basicAuth = Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString(
+      'base64'
+    );
+
     // Request new token
     const response = await axios.post(
       config.zoom.oauth.tokenUrl,
-      'grant_type=account_credentials&account_id=' + config.zoom.accountId,
+      'grant_type=account_credentials&account_id=' + credentials.accountId,
       {
         headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/x-www-form-urlencoded'
-        }
+          Authorization: `Basic ${basicAuth}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
       }
     );
-    
+
     // Verify response contains token
     if (!response.data?.access_token) {
       throw new Error('No access token returned from Zoom API');
     }
-    
-    // Update token and expiry
-    accessToken = response.data.access_token;
+
     // Calculate expiry time by adding expiry seconds to current time
-    tokenExpiry = Math.floor(Date.now() / 1000) + response.data.expires_in;
-    
+    tokens.set(cacheKey, {
+      accessToken: response.data.access_token,
+      tokenExpiry: Math.floor(Date.now() / 1000) + response.data.expires_in,
+    });
+
     logger.info('Successfully obtained Zoom API access token', {
+      subscription,
       expiresIn: response.data.expires_in,
-      tokenType: response.data.token_type
+      tokenType: response.data.token_type,
     });
-    
-    return accessToken;
+
+    return response.data.access_token;
   } catch (err) {
     const error = err as ApiError;
     logger.error('Failed to obtain Zoom API access token', {
+      subscription,
       message: error.message,
       status: error.response?.status,
-      data: error.response?.data
+      data: error.response?.data,
     });
-    
+
     throw new Error(`Failed to obtain Zoom API access token: ${error.message}`);
   }
 };
 
+/**
+ * Get the expiry time of the cached access token
+ * @param subscription - Subscription whose token to check; the default when omitted
+ * @returns Expiry date, or null when no token is cached
+ */
+export const getTokenExpiry = (subscription?: string): Date | null => {
+  const cached = tokens.get(getCacheKey(getCredentials(subscription)));
+  return cached ? new Date(cached.tokenExpiry * 1000) : null;
+};
+
 /**
  * Invalidate the current access token
+ * @param subscription - Subscription whose token to drop; the default when omitted
  */
-export const invalidateToken = (): void => {
-  accessToken = '';
-  tokenExpiry = 0;
-  logger.info('Zoom API access token invalidated');
-};
\ No newline at end of file
+export const invalidateToken = (subscription?: string): void => {
+  tokens.delete(getCacheKey(getCredentials(subscription)));
+  logger.info('Zoom API access token invalidated', { subscription });
+};
@@ -0,0 +1,87 @@
+import config from '../config/env';
+import logger from '../config/logger';
+import { ZoomWebSocketService } from './zoomWebSocketService';
+import zoomEventIngestion from './zoomEventIngestion';
+import { ApiError, ZoomConnectionStatus } from '../types';
+
+/**
+ * One WebSocket connection per configured Zoom event subscription, all
+ * feeding the event ingestion layer
+ */
+class ZoomConnectionPool {
+  private connections: ZoomWebSocketService[];
+
+  constructor() {
+    this.connections = config.zoom.subscriptions.map(
+      (subscription) =>
+        new ZoomWebSocketService(subscription, (event) =>
+          zoomEventIngestion.ingest(event, 'websocket', { subscription: subscription.name })
+        )
+    );
+  }
+
+  /**
+   * Get the connections to act on
+   * @param name - Subscription name; all connections when omitted
+   */
+  private select(name?: string): ZoomWebSocketService[] {
+    if (!name) {
+      return this.connections;
+    }
+
+    const connection = this.connections.find((c) => c.name === name);
+    if (!connection) {
+      const error: ApiError = new Error(`Unknown Zoom subscription: ${name}`);
+      error.status = 404;
+      throw error;
+    }
+    return [connection];
+  }
+
+  /**
+   * Connect to Zoom
+   * @param name - Subscription to connect; all when omitted
+   */
+  async initialize(name?: string): Promise<void> {
+    const connections = this.select(name);
+    logger.info(`Starting ${connections.length} Zoom WebSocket connections`);
+    await Promise.all(connections.map((connection) => connection.initialize()));
+  }
+
+  /**
+   * Close connections and stop reconnecting
+   * @param name - Subscription to close; all when omitted
+   */
+  close(name?: string): void {
+    this.select(name).forEach((connection) => connection.close());
+  }
+
+  /**
+   * Close and reopen connections
+   * @param name - Subscription to reconnect; all when omitted
+   */
+  async reconnect(name?: string): Promise<void> {
+    this.close(name);
+    await this.initialize(name);
+  }
+
+  /**
+   * Whether connections are open
+   * @param name - Subscription to check; when omitted, whether every connection is open
+   */
+  isConnected(name?: string): boolean {
+    return this.select(name).every((connection) => connection.isConnected());
+  }
+
+  /**
+   * State and reconnection counters of each connection
+   */
+  getStatus(): ZoomConnectionStatus[] {
+    return this.connections.map((connection) => connection.getStatus());
+  }
+}
+
+// Create singleton instance
+const zoomConnectionPool = new ZoomConnectionPool();
+
+export default zoomConnectionPool;
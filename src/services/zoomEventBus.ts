@@ -0,0 +1,307 @@
+import { randomUUID } from 'crypto';
+import config from '../config/env';
+import logger from '../config/logger';
+import { KnownZoomEvent, ZoomEventType, ZoomWebhookEvent } from '../types';
+
+/**
+ * What a subscription listens to: an exact event type ("recording.completed"),
+ * every event type of a family ("recording.*") or every event ("*")
+ */
+export type ZoomEventPattern = ZoomEventType | '*' | `${string}.*` | (string & {});
+
+// Known events whose type union includes `P`, such as the recording removed event for "recording.deleted"
+type KnownZoomEventFor<P extends string, E = KnownZoomEvent> = E extends { event: infer T }
+  ? P extends T
+    ? E
+    : never
+  : never;
+
+/**
+ * Event type delivered to a handler subscribed with pattern `P`.
+ * Known event types get their payload type; others get the generic event.
+ */
+export type ZoomEventFor<P extends string> = P extends ZoomEventType
+  ? KnownZoomEventFor<P>
+  : P extends `${infer Family}.*`
+    ? [Extract<KnownZoomEvent, { event: `${Family}.${string}` }>] extends [never]
+      ? ZoomWebhookEvent
+      : Extract<KnownZoomEvent, { event: `${Family}.${string}` }>
+    : ZoomWebhookEvent;
+
+export type ZoomEventHandler<E extends ZoomWebhookEvent = ZoomWebhookEvent> = (
+  event: E
+) => void | Promise<void>;
+
+// Removes the subscription it was returned for
+export type Unsubscribe = () => void;
+
+export type OverflowPolicy = 'drop_oldest' | 'drop_newest';
+
+/**
+ * How events are delivered to one subscription. Defaults come from `config.events`.
+ */
+export interface SubscriptionOptions {
+  // Name shown in logs and metrics; defaults to the pattern
+  name?: string;
+  // Events handled at the same time
+  concurrency?: number;
+  // Events waiting for a free slot before the overflow policy applies
+  bufferSize?: number;
+  overflowPolicy?: OverflowPolicy;
+  // Time after which a handler's slot is freed; the handler itself is not cancelled
+  timeoutMs?: number;
+}
+
+export interface SubscriptionMetrics {
+  name: string;
+  pattern: string;
+  received: number;
+  completed: number;
+  failed: number;
+  timedOut: number;
+  dropped: number;
+  active: number;
+  buffered: number;
+  averageDurationMs: number;
+  maxDurationMs: number;
+  lastError?: string;
+}
+
+// An event waiting for a handler, and how to report whether it was handled
+interface BufferedEvent {
+  event: ZoomWebhookEvent;
+  settle: (handled: boolean) => void;
+}
+
+interface Subscription {
+  id: string;
+  pattern: string;
+  handler: ZoomEventHandler<any>;
+  options: Required<SubscriptionOptions>;
+  buffer: BufferedEvent[];
+  active: number;
+  totalDurationMs: number;
+  metrics: Omit<
+    SubscriptionMetrics,
+    'name' | 'pattern' | 'active' | 'buffered' | 'averageDurationMs'
+  >;
+}
+
+/**
+ * Whether an event type matches a subscription pattern
+ * @param pattern - Exact type, "family.*" prefix or "*"
+ * @param eventType - Type of the received event
+ */
+export const matchesPattern = (pattern: string, eventType: string): boolean => {
+  if (pattern === '*' || pattern === eventType) {
+    return true;
+  }
+  return pattern.endsWith('.*') && eventType.startsWith(pattern.slice(0, -1));
+};
+
+/**
+ * Routes Zoom events to the handlers subscribed to their type.
+ * Every subscription has its own bounded buffer and concurrency limit, so a
+ * slow handler only delays its own events.
+ */
+export class ZoomEventBus {
+  private subscriptions: Subscription[] = [];
+
+  /**
+   * Subscribe to events matching a pattern
+   * @param pattern - Exact event type, "family.*" or "*"
+   * @param handler - Called with each matching event
+   * @param options - Concurrency, buffering and timeout for this handler
+   * @returns Function that removes the subscription
+   */
+  on<P extends ZoomEventPattern>(
+    pattern: P,
+    handler: ZoomEventHandler<ZoomEventFor<P>>,
+    options: SubscriptionOptions = {}
+  ): Unsubscribe {
+    if (typeof handler !== 'function') {
+      throw new Error('Event handler must be a function');
+    }
+
+    const subscription: Subscription = {
+      id: randomUUID(),
+      pattern,
+      handler,
+      options: {
+        name: options.name || pattern,
+        concurrency: Math.max(options.concurrency ?? config.events.handlerConcurrency, 1),
+        bufferSize: Math.max(options.bufferSize ?? config.events.bufferSize, 0),
+        overflowPolicy: options.overflowPolicy || config.events.overflowPolicy,
+        timeoutMs: options.timeoutMs ?? config.events.handlerTimeoutMs,
+      },
+      buffer: [],
+      active: 0,
+      totalDurationMs: 0,
+      metrics: { received: 0, completed: 0, failed: 0, timedOut: 0, dropped: 0, maxDurationMs: 0 },
+    };
+    this.subscriptions.push(subscription);
+    logger.info(`Registered Zoom event handler "${subscription.options.name}" for "${pattern}"`);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter((s) => s.id !== subscription.id);
+    };
+  }
+
+  /**
+   * Hand an event to every matching subscription without waiting for the handlers
+   * @param event - The Zoom event
+   * @returns Resolves once every matching handler is done with the event: true when
+   * all of them handled it, false when one failed or its buffer dropped the event
+   */
+  publish(event: ZoomWebhookEvent): Promise<boolean> {
+    const matching = this.subscriptions.filter((s) => matchesPattern(s.pattern, event.event));
+
+    if (matching.length === 0) {
+      logger.info(`No handlers subscribed to Zoom event: ${event.event}`);
+      return Promise.resolve(true);
+    }
+
+    logger.info(`Dispatching Zoom event ${event.event} to ${matching.length} handlers`);
+
+    return Promise.all(
+      matching.map(
+        (subscription) =>
+          new Promise<boolean>((settle) => this.enqueue(subscription, { event, settle }))
+      )
+    ).then((results) => results.every(Boolean));
+  }
+
+  /**
+   * Number of handlers that would receive an event of this type
+   * @param eventType - Event type, or all subscriptions when omitted
+   */
+  listenerCount(eventType?: string): number {
+    return eventType
+      ? this.subscriptions.filter((s) => matchesPattern(s.pattern, eventType)).length
+      : this.subscriptions.length;
+  }
+
+  /**
+   * Delivery counters for every subscription
+   */
+  getMetrics(): SubscriptionMetrics[] {
+    return this.subscriptions.map((s) => {
+      const finished = s.metrics.completed + s.metrics.failed;
+      return {
+        name: s.options.name,
+        pattern: s.pattern,
+        ...s.metrics,
+        active: s.active,
+        buffered: s.buffer.length,
+        averageDurationMs: finished > 0 ? Math.round(s.totalDurationMs / finished) : 0,
+      };
+    });
+  }
+
+  /**
+   * Buffer an event for a subscription, applying its overflow policy when full
+   */
+  private enqueue(subscription: Subscription, buffered: BufferedEvent): void {
+    const { event } = buffered;
+    const { name, bufferSize, overflowPolicy } = subscription.options;
+    subscription.metrics.received++;
+
+    const slotFree = subscription.active < subscription.options.concurrency;
+    if (!slotFree && subscription.buffer.length >= bufferSize) {
+      subscription.metrics.dropped++;
+
+      if (overflowPolicy === 'drop_newest' || bufferSize === 0) {
+        logger.warn(`Event buffer of "${name}" is full, dropping ${event.event}`);
+        buffered.settle(false);
+        return;
+      }
+
+      const dropped = subscription.buffer.shift()!;
+      logger.warn(
+        `Event buffer of "${name}" is full, dropping oldest event ${dropped.event.event}`
+      );
+      dropped.settle(false);
+    }
+
+    subscription.buffer.push(buffered);
+    this.drain(subscription);
+  }
+
+  /**
+   * Start handlers for buffered events until the subscription's concurrency limit is reached
+   */
+  private drain(subscription: Subscription): void {
+    while (
+      subscription.active < subscription.options.concurrency &&
+      subscription.buffer.length > 0
+    ) {
+      const buffered = subscription.buffer.shift()!;
+      subscription.active++;
+
+      this.deliver(subscription, buffered).finally(() => {
+        subscription.active--;
+        this.drain(subscription);
+      });
+    }
+  }
+
+  /**
+   * Run a handler for one event, recording its outcome. A handler that outlives
+   * its timeout keeps running, but its slot is given to the next event; whether
+   * it handled the event is reported once it finishes.
+   */
+  private async deliver(
+    subscription: Subscription,
+    { event, settle }: BufferedEvent
+  ): Promise<void> {
+    const { name, timeoutMs } = subscription.options;
+    const { metrics } = subscription;
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const handled = Promise.resolve()
+      .then(() => subscription.handler(event))
+      .then(() => 'done' as const);
+    handled.then(
+      () => settle(true),
+      () => settle(false)
+    );
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+
+    try {
+      const outcome = await (timeoutMs > 0 ? Promise.race([handled, timeout]) : handled);
+
+      if (outcome === 'timeout') {
+        metrics.timedOut++;
+        logger.warn(`Zoom event handler "${name}" timed out after ${timeoutMs}ms`, {
+          event: event.event,
+        });
+        // Keep the late outcome out of the metrics, but still log failures
+        handled.catch((error) =>
+          logger.error(`Timed out Zoom event handler "${name}" failed`, {
+            event: event.event,
+            message: (error as Error).message,
+          })
+        );
+        return;
+      }
+
+      metrics.completed++;
+    } catch (error) {
+      metrics.failed++;
+      metrics.lastError = (error as Error).message;
+      logger.error(`Error in Zoom event handler "${name}"`, {
+        event: event.event,
+        message: metrics.lastError,
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const duration = Date.now() - startTime;
+    subscription.totalDurationMs += duration;
+    metrics.maxDurationMs = Math.max(metrics.maxDurationMs, duration);
+  }
+}
@@ -0,0 +1,67 @@
+import config from '../config/env';
+import zoomEventIngestion from './zoomEventIngestion';
+
+let meetingCount = 0;
+
+const meetingEnded = () => ({
+  event: 'meeting.ended',
+  event_ts: 1700000000000,
+  payload: { object: { id: 123, uuid: `meeting-${++meetingCount}`, topic: 'Standup' } },
+});
+
+// Let the handlers and the seen-set update run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('zoomEventIngestion', () => {
+  const handler = jest.fn();
+
+  beforeAll(() => {
+    config.ingestion.transports = ['websocket', 'webhook'];
+    zoomEventIngestion.on('meeting.ended', handler);
+  });
+
+  beforeEach(() => {
+    handler.mockReset();
+  });
+
+  it('publishes an event once when it arrives over both transports', async () => {
+    const event = meetingEnded();
+
+    expect(zoomEventIngestion.ingest(event, 'webhook').status).toBe('published');
+    expect(zoomEventIngestion.ingest(event, 'websocket').status).toBe('duplicate');
+    await settle();
+
+    expect(zoomEventIngestion.ingest(event, 'webhook').status).toBe('duplicate');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes a redelivery of an event its handler failed on', async () => {
+    const event = meetingEnded();
+    handler.mockRejectedValueOnce(new Error('database unavailable'));
+
+    zoomEventIngestion.ingest(event, 'webhook');
+    await settle();
+
+    expect(zoomEventIngestion.ingest(event, 'webhook').status).toBe('published');
+    await settle();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('quarantines events without a valid timestamp', () => {
+    const event: Record<string, unknown> = meetingEnded();
+    delete event.event_ts;
+
+    expect(zoomEventIngestion.ingest(event, 'webhook')).toMatchObject({
+      status: 'quarantined',
+      issues: ['event_ts: Required'],
+    });
+    expect(zoomEventIngestion.ingest({ ...event, event_ts: 'yesterday' }, 'webhook').status).toBe(
+      'quarantined'
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('ignores events from an unknown source', () => {
+    expect(zoomEventIngestion.ingest(meetingEnded(), 'email' as any).status).toBe('ignored');
+  });
+});
@@ -0,0 +1,237 @@
+import config from '../config/env';
+import logger from '../config/logger';
+import { archiveEvent, quarantineEvent } from './eventArchiveService';
+import { findDuplicate, getEventKey, markEventSeen } from './eventDedupService';
+import {
+  matchesPattern,
+  SubscriptionMetrics,
+  SubscriptionOptions,
+  Unsubscribe,
+  ZoomEventBus,
+  ZoomEventFor,
+  ZoomEventHandler,
+  ZoomEventPattern,
+} from './zoomEventBus';
+import { validateZoomEvent, zoomEventSourceSchema } from '../schemas/zoomEventSchemas';
+import { ReplayMarker, ZoomEvent, ZoomEventSource } from '../types';
+
+export type IngestStatus =
+  | 'published'
+  | 'duplicate'
+  | 'filtered'
+  | 'ignored'
+  | 'disabled'
+  | 'quarantined';
+
+export interface IngestResult {
+  status: IngestStatus;
+  event?: ZoomEvent;
+  // Job created for the first delivery of a duplicate event
+  jobId?: string;
+  // Why a quarantined event failed validation
+  issues?: string[];
+}
+
+export interface IngestContext {
+  // Subscription a WebSocket event arrived on
+  subscription?: string;
+  // Set for archived events fed back by a replay, which skip archiving and deduplication
+  replay?: ReplayMarker;
+  receivedAt?: string;
+}
+
+type IngestionStats = Record<ZoomEventSource, Record<'received' | IngestStatus, number>>;
+
+const emptyStats = () => ({
+  received: 0,
+  published: 0,
+  duplicate: 0,
+  filtered: 0,
+  ignored: 0,
+  disabled: 0,
+  quarantined: 0,
+});
+
+/**
+ * Single entry point for Zoom events from every transport.
+ * Webhook and WebSocket events are normalized into a `ZoomEvent` tagged with
+ * their source, then go through the same archiving, filtering, schema
+ * validation, deduplication and dispatch to the subscribed handlers.
+ */
+class ZoomEventIngestion {
+  private events = new ZoomEventBus();
+  private stats: IngestionStats = { websocket: emptyStats(), webhook: emptyStats() };
+  // Keys of events whose handlers have not finished yet
+  private inFlight = new Set<string>();
+
+  /**
+   * Subscribe to Zoom events from any transport
+   * @param pattern - Exact event type ("recording.completed"), event family ("recording.*") or "*"
+   * @param handler - Function to call with each matching event
+   * @param options - Concurrency, buffer size, overflow policy and timeout for this handler
+   * @returns Function that removes the subscription
+   */
+  on<P extends ZoomEventPattern>(
+    pattern: P,
+    handler: ZoomEventHandler<ZoomEventFor<P>>,
+    options?: SubscriptionOptions
+  ): Unsubscribe {
+    return this.events.on(pattern, handler, options);
+  }
+
+  /**
+   * Whether events are accepted on a transport
+   */
+  isEnabled(source: ZoomEventSource): boolean {
+    return config.ingestion.transports.includes(source);
+  }
+
+  /**
+   * Normalize an event received on a transport and dispatch it to the handlers
+   * @param raw - Event body as sent by Zoom
+   * @param source - Transport the event arrived on
+   * @param context - Subscription, replay marker and receive time
+   * @returns What happened to the event
+   */
+  ingest(raw: any, source: ZoomEventSource, context: IngestContext = {}): IngestResult {
+    // Archived events name their source, which may not be one we know
+    if (!zoomEventSourceSchema.safeParse(source).success) {
+      logger.warn(`Dropping Zoom event from unknown source "${source}"`, {
+        eventType: raw?.event || raw?.event_type,
+      });
+      return { status: 'ignored' };
+    }
+    this.stats[source].received++;
+
+    // Replays run whatever transports are enabled now
+    if (!context.replay && !this.isEnabled(source)) {
+      logger.warn(`Zoom ${source} transport is disabled, dropping event`, {
+        eventType: raw?.event || raw?.event_type,
+      });
+      return this.count(source, { status: 'disabled' });
+    }
+
+    const normalized = this.normalize(raw, source, context);
+    if (!normalized) {
+      logger.debug(`Received ${source} message without an event type`);
+      return this.count(source, { status: 'ignored' });
+    }
+
+    if (!context.replay) {
+      archiveEvent(normalized);
+    }
+
+    // URL validation is answered by the webhook endpoint and never dispatched
+    if (normalized.event === 'endpoint.url_validation') {
+      return this.count(source, { status: 'ignored', event: normalized });
+    }
+
+    if (!config.ingestion.eventTypes.some((pattern) => matchesPattern(pattern, normalized.event))) {
+      logger.debug(`Zoom event ${normalized.event} filtered out by ZOOM_EVENT_TYPES`);
+      return this.count(source, { status: 'filtered', event: normalized });
+    }
+
+    // Handlers only ever see events that match the schema for their type
+    const validation = validateZoomEvent(normalized);
+    if (!validation.success) {
+      logger.warn(`Quarantined malformed Zoom event ${normalized.event} from ${source}`, {
+        issues: validation.issues,
+      });
+      if (!context.replay) {
+        quarantineEvent(normalized, validation.issues);
+      }
+      return this.count(source, {
+        status: 'quarantined',
+        event: normalized,
+        issues: validation.issues,
+      });
+    }
+    const event = validation.data as ZoomEvent;
+
+    const key = getEventKey(event);
+    if (!context.replay) {
+      // A delivery still being handled counts as seen; it is recorded once handled
+      if (this.inFlight.has(key)) {
+        logger.info(
+          `Duplicate Zoom event ignored while the first delivery is handled: ${event.event}`
+        );
+        return this.count(source, { status: 'duplicate', event });
+      }
+      const duplicate = findDuplicate(event);
+      if (duplicate) {
+        return this.count(source, { status: 'duplicate', event, jobId: duplicate.jobId });
+      }
+      this.inFlight.add(key);
+    }
+
+    logger.info(`Ingested Zoom event ${event.event} from ${source}`, {
+      subscription: event.subscription,
+      ...(context.replay && { replayId: context.replay.replayId }),
+    });
+    const handled = this.events.publish(event);
+    if (!context.replay) {
+      // Only events every handler accepted are suppressed when delivered again
+      handled.then((accepted) => {
+        this.inFlight.delete(key);
+        if (accepted) {
+          markEventSeen(event);
+        } else {
+          logger.warn(`Zoom event ${event.event} was not handled, a redelivery will be processed`);
+        }
+      });
+    }
+    return this.count(source, { status: 'published', event });
+  }
+
+  /**
+   * Delivery metrics for each event handler
+   */
+  getMetrics(): SubscriptionMetrics[] {
+    return this.events.getMetrics();
+  }
+
+  /**
+   * Enabled transports and what happened to the events received on each
+   */
+  getStatus() {
+    return {
+      transports: config.ingestion.transports,
+      eventTypes: config.ingestion.eventTypes,
+      sources: this.stats,
+    };
+  }
+
+  /**
+   * Build a `ZoomEvent` from an event body; Zoom names the type `event` or `event_type`
+   * @returns The event, or null when the body carries none
+   */
+  private normalize(raw: any, source: ZoomEventSource, context: IngestContext): ZoomEvent | null {
+    const eventType = raw?.event || raw?.event_type;
+    if (!eventType) {
+      return null;
+    }
+
+    const subscription = context.subscription || raw.subscription;
+    return {
+      ...raw,
+      event: eventType,
+      // Kept as sent: events without a valid timestamp fail validation
+      event_ts: typeof raw.event_ts === 'string' ? Number(raw.event_ts) : raw.event_ts,
+      payload: raw.payload || {},
+      source,
+      receivedAt: context.receivedAt || new Date().toISOString(),
+      ...(subscription && { subscription }),
+      ...(context.replay && { replay: context.replay }),
+    };
+  }
+
+  private count(source: ZoomEventSource, result: IngestResult): IngestResult {
+    this.stats[source][result.status]++;
+    return result;
+  }
+}
+
+// Create singleton instance
+const zoomEventIngestion = new ZoomEventIngestion();
+
+export default zoomEventIngestion;
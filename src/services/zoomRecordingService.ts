@@ -0,0 +1,68 @@
+import axios from 'axios';
+import config from '../config/env';
+import logger from '../config/logger';
+import { ApiError, ZoomMeeting } from '../types';
+
+/**
+ * Encode a meeting ID or UUID for use in a Zoom API path.
+ * UUIDs that start with "/" or contain "//" must be double-encoded.
+ * @param meetingId - Numeric meeting ID or meeting UUID
+ */
+const encodeMeetingId = (meetingId: string): string => {
+  const encoded = encodeURIComponent(meetingId);
+  return meetingId.startsWith('/') || meetingId.includes('//')
+    ? encodeURIComponent(encoded)
+    : encoded;
+};
+
+/**
+ * Retrieves the cloud recordings of a meeting
+ * @param meetingId - Numeric meeting ID or meeting UUID
+ * @param accessToken - OAuth access token for Zoom API
+ * @returns Meeting with its recording files and a download token
+ */
+export const getMeetingRecordings = async (
+  meetingId: string,
+  accessToken: string
+): Promise<ZoomMeeting> => {
+  try {
+    logger.info(`Retrieving cloud recordings for meeting: ${meetingId}`);
+
+    const response = await axios.get(
+      `${config.zoom.apiUrl}/meetings/${encodeMeetingId(meetingId)}/recordings`,
+      {
+        params: { include_fields: 'download_access_token' },
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    const { download_access_token, ...meeting } = response.data;
+
+    logger.info(
+      `Found ${meeting.recording_files?.length || 0} recording files for meeting ${meetingId}`
+    );
+
+    return {
+      ...meeting,
+      download_token: download_access_token,
+    } as ZoomMeeting;
+  } catch (err) {
+    const error = err as ApiError;
+    logger.error('Error retrieving Zoom meeting recordings', {
+      meetingId,
+      status: error.response?.status,
+      data: error.response?.data,
+      message: error.message,
+    });
+
+    // Keep the HTTP status so callers can tell a missing meeting from an outage
+    const wrapped: ApiError = new Error(
+      `Failed to retrieve Zoom meeting recordings: ${error.message}`
+    );
+    wrapped.status = error.response?.status;
+    throw wrapped;
+  }
+};
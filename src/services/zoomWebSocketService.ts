@@ -1,24 +1,57 @@
 import WebSocket = require('ws');
 import axios from 'axios';
 import config from '../config/env';
-import logger from '../config/logger';
-import { getAccessToken } from './zoomAuthService';
+import baseLogger from '../config/logger';
+import { getAccessToken, getTokenExpiry, invalidateToken } from './zoomAuthService';
+import { ZoomConnectionState, ZoomConnectionStatus, ZoomSubscriptionConfig } from '../types';
+import { redactString } from '../utils/logRedaction';
 
 // WebSocket readyState constants
 const WS_OPEN = 1;
 
-// Type for message handler functions
-type MessageHandler = (eventData: any) => Promise<void>;
+// build_connection failures caused by the access token in the URL
+const AUTH_FAILURE_PATTERN = /token|auth|unauthori[sz]ed|forbidden|expired|401|403/i;
 
-class ZoomWebSocketService {
+// Receives the event bodies carried by a connection's messages
+export type ZoomEventSink = (event: Record<string, any>) => void;
+
+/**
+ * WebSocket connection for one Zoom event subscription.
+ * Event messages are unwrapped and handed to the given sink.
+ */
+export class ZoomWebSocketService {
   private ws: WebSocket | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private isConnecting: boolean = false;
-  private pingInterval: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private heartbeatTimeout: NodeJS.Timeout | null = null;
+  private lastHeartbeatAt: Date | null = null;
+  private tokenRefreshTimer: NodeJS.Timeout | null = null;
+  private state: ZoomConnectionState = 'stopped';
   private reconnectAttempts: number = 0;
-  private MAX_RECONNECT_ATTEMPTS: number = 10;
-  private RECONNECT_INTERVAL: number = 5000; // 5 seconds
-  private messageHandlers: MessageHandler[] = []; // Array to store message handlers
+  private totalReconnects: number = 0;
+  private cooldowns: number = 0;
+  private lastConnectedAt: Date | null = null;
+  private lastDisconnectedAt: Date | null = null;
+  private lastMessageAt: Date | null = null;
+  private nextReconnectAt: Date | null = null;
+  private lastError: string | null = null;
+  private logger: typeof baseLogger;
+
+  /**
+   * @param subscription The subscription to consume, with its credentials
+   * @param onEvent Called with each event received
+   */
+  constructor(
+    private readonly subscription: ZoomSubscriptionConfig,
+    private readonly onEvent: ZoomEventSink
+  ) {
+    this.logger = baseLogger.child({ subscription: subscription.name });
+  }
+
+  get name(): string {
+    return this.subscription.name;
+  }
 
   /**
    * Initialize the WebSocket connection to Zoom
@@ -26,21 +59,22 @@ class ZoomWebSocketService {
   async initialize(): Promise<void> {
     try {
       if (this.isConnecting) {
-        logger.info('WebSocket connection attempt already in progress');
+        this.logger.info('WebSocket connection attempt already in progress');
         return;
       }
 
       this.isConnecting = true;
+      this.setState('connecting');
       
       // Get access token from the auth service
-      const accessToken = await getAccessToken();
+      const accessToken = await getAccessToken(this.subscription.name);
       
       // Construct WebSocket URL with query parameters including the token
-      const wsUrl = `${config.zoom.wsUrl}?subscriptionId=${config.zoom.subscriptionId}&access_token=${accessToken}`;
+      const wsUrl = `${config.zoom.wsUrl}?subscriptionId=${this.subscription.subscriptionId}&access_token=${accessToken}`;
       
       // Log URL without exposing token
       const safeUrl = wsUrl.replace(/access_token=([^&]+)/, 'access_token=***');
-      logger.info(`Connecting to Zoom WebSocket at ${safeUrl}`);
+      this.logger.info(`Connecting to Zoom WebSocket at ${safeUrl}`);
       
       // Close existing connection if any
       if (this.ws) {
@@ -54,165 +88,314 @@ class ZoomWebSocketService {
       this.setupEventHandlers();
       
       this.isConnecting = false;
-      this.reconnectAttempts = 0;
     } catch (error) {
       this.isConnecting = false;
-      logger.error('Failed to initialize Zoom WebSocket', { error });
+      this.lastError = (error as Error).message;
+      this.logger.error('Failed to initialize Zoom WebSocket', { error });
       this.scheduleReconnect();
     }
   }
 
-  /**
-   * Register a handler for WebSocket messages
-   * @param handler Function to call when a message is received
-   */
-  onMessage(handler: MessageHandler): void {
-    if (typeof handler !== 'function') {
-      throw new Error('Message handler must be a function');
-    }
-    logger.info('Registering new WebSocket message handler');
-    this.messageHandlers.push(handler);
-  }
-
   /**
    * Set up WebSocket event handlers
    */
   private setupEventHandlers(): void {
     if (!this.ws) return;
+    const socket = this.ws;
 
     // Handle connection open
     this.ws.on('open', () => {
-      logger.info('Connected to Zoom WebSocket');
+      this.logger.info('Connected to Zoom WebSocket');
+      this.setState('open');
+      this.lastConnectedAt = new Date();
       
-      // Set up ping interval to keep connection alive
-      this.pingInterval = setInterval(() => {
-        if (this.ws && this.ws.readyState === WS_OPEN) {
-          try {
-            this.ws.ping();
-            logger.debug('Sent ping to Zoom WebSocket');
-          } catch (err) {
-            logger.error('Error sending ping', { error: err });
-          }
-        }
-      }, 30000); // Every 30 seconds
+      // Zoom expects heartbeat messages to keep the connection alive
+      this.heartbeatInterval = setInterval(
+        () => this.sendHeartbeat(),
+        config.zoom.heartbeat.intervalMs
+      );
+
+      this.scheduleTokenRefresh();
     });
 
     // Handle messages
     this.ws.on('message', (data: WebSocket.Data) => {
       try {
-        logger.info('Received message from Zoom WebSocket');
+        this.logger.info('Received message from Zoom WebSocket');
         
         const message = data.toString();
-        logger.debug('WebSocket message data', { message: message.substring(0, 200) + '...' });
+        this.logger.debug('WebSocket message data', {
+          message: redactString(message).substring(0, 200) + '...',
+        });
         
         // Parse the message
         const eventData = JSON.parse(message);
+        this.lastMessageAt = new Date();
         
+        // Heartbeat replies only confirm the connection is alive
+        if (eventData.module === 'heartbeat') {
+          this.handleHeartbeatReply();
+          return;
+        }
+
         // Check for connection errors
         if (eventData.module === 'build_connection' && eventData.success === false) {
-          logger.error(`WebSocket connection error: ${eventData.content || 'Unknown error'}`, { eventData });
+          this.logger.error(`WebSocket connection error: ${eventData.content || 'Unknown error'}`, {
+            eventData,
+          });
+          this.lastError = String(eventData.content || 'Connection rejected by Zoom');
+
+          if (AUTH_FAILURE_PATTERN.test(String(eventData.content || ''))) {
+            this.handleAuthFailure();
+          }
           return;
         }
         
+        // Anything but a rejection shows the connection works
+        this.markHealthy();
+
         // Process non-error events
-        if (eventData.event_type || eventData.event) {
-          // Notify all registered message handlers
-          this.notifyMessageHandlers(eventData);
+        const event = this.unwrapEvent(eventData);
+        if (event) {
+          this.onEvent(event);
         } else {
-          logger.debug('Received non-event message', { eventData });
+          this.logger.debug('Received non-event message', { eventData });
         }
       } catch (error) {
-        logger.error('Error processing WebSocket message', { error });
+        this.logger.error('Error processing WebSocket message', { error });
       }
     });
 
     // Handle errors
     this.ws.on('error', (error: Error) => {
-      logger.error('Zoom WebSocket error', { message: error.message });
+      this.logger.error('Zoom WebSocket error', { message: error.message });
+      this.lastError = error.message;
     });
 
     // Handle connection close
     this.ws.on('close', (code: number, reason: string) => {
-      logger.warn('Zoom WebSocket connection closed', { 
+      // A connection replaced on purpose is already taken care of
+      if (this.ws !== socket) {
+        this.logger.debug('Replaced Zoom WebSocket connection closed', { code });
+        return;
+      }
+
+      this.logger.warn('Zoom WebSocket connection closed', {
         code, 
         reason: reason || 'No reason provided'
       });
+      this.lastDisconnectedAt = new Date();
       this.cleanup();
       this.scheduleReconnect();
     });
 
     // Handle pong response
     this.ws.on('pong', () => {
-      logger.debug('Received pong from Zoom WebSocket');
+      this.logger.debug('Received pong from Zoom WebSocket');
     });
   }
 
   /**
-   * Notify all registered message handlers about a received event
-   * @param eventData The parsed event data
+   * Drop the rejected token and reconnect with a fresh one
    */
-  private async notifyMessageHandlers(eventData: any): Promise<void> {
-    logger.info(`Notifying ${this.messageHandlers.length} message handlers about event`);
-    
-    for (const handler of this.messageHandlers) {
-      try {
-        await handler(eventData);
-      } catch (error) {
-        logger.error('Error in message handler', { error });
-        // Continue with other handlers even if one fails
-      }
+  private handleAuthFailure(): void {
+    this.logger.warn('Zoom rejected the WebSocket access token, reconnecting with a new token');
+    invalidateToken(this.subscription.name);
+
+    this.cleanup();
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Reconnect before the access token embedded in the WebSocket URL expires
+   */
+  private scheduleTokenRefresh(): void {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
     }
+
+    const expiry = getTokenExpiry(this.subscription.name);
+    if (!expiry) return;
+
+    // Never refresh more often than once a minute, even with short-lived tokens
+    const delay = Math.max(
+      expiry.getTime() - Date.now() - config.zoom.tokenRefreshMarginSeconds * 1000,
+      60000
+    );
+    this.logger.info(`Zoom WebSocket token refresh scheduled in ${Math.round(delay / 1000)}s`, {
+      tokenExpiry: expiry.toISOString(),
+    });
+
+    this.tokenRefreshTimer = setTimeout(async () => {
+      this.tokenRefreshTimer = null;
+      this.logger.info('Zoom access token about to expire, reconnecting with a new token');
+
+      // The cached token is still valid, so it has to be dropped to get a new one
+      invalidateToken(this.subscription.name);
+      this.cleanup();
+      await this.initialize();
+    }, delay);
+  }
+
+  /**
+   * Send a heartbeat and treat the connection as dead if no reply arrives in time
+   */
+  private sendHeartbeat(): void {
+    if (!this.ws || this.ws.readyState !== WS_OPEN || this.heartbeatTimeout) {
+      return;
+    }
+
+    try {
+      this.ws.send(JSON.stringify({ module: 'heartbeat' }));
+      this.logger.debug('Sent heartbeat to Zoom WebSocket');
+    } catch (err) {
+      this.logger.error('Error sending heartbeat', { error: err });
+      return;
+    }
+
+    this.heartbeatTimeout = setTimeout(() => {
+      this.heartbeatTimeout = null;
+      this.lastError = 'No heartbeat reply';
+      this.logger.warn(
+        `No heartbeat reply from Zoom within ${config.zoom.heartbeat.timeoutMs}ms, reconnecting`,
+        {
+          lastHeartbeatAt: this.lastHeartbeatAt?.toISOString(),
+        }
+      );
+
+      // A dead TCP connection may never emit close on its own; terminating it
+      // emits close, which schedules the reconnection
+      this.ws?.terminate();
+    }, config.zoom.heartbeat.timeoutMs);
+  }
+
+  /**
+   * Record a heartbeat reply from Zoom
+   */
+  private handleHeartbeatReply(): void {
+    this.lastHeartbeatAt = new Date();
+    this.markHealthy();
+    this.logger.debug('Received heartbeat reply from Zoom WebSocket');
+
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+  }
+
+  /**
+   * Get the Zoom event body carried by a WebSocket message
+   * @param message The parsed message
+   * @returns The event body, or null for messages that carry none
+   */
+  private unwrapEvent(message: any): Record<string, any> | null {
+    // Event messages carry the event as a JSON string in `content`
+    const data =
+      message.module === 'message' && typeof message.content === 'string'
+        ? JSON.parse(message.content)
+        : message;
+    
+    return data.event || data.event_type ? data : null;
   }
 
   /**
    * Clean up resources when connection closes
    */
   private cleanup(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
     }
     
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+
     if (this.ws) {
       // Close the connection if it's still open
       if (this.ws.readyState === WS_OPEN) {
         try {
           this.ws.close();
         } catch (error) {
-          logger.error('Error closing WebSocket', { error });
+          this.logger.error('Error closing WebSocket', { error });
         }
       }
       this.ws = null;
     }
   }
 
+  private setState(state: ZoomConnectionState): void {
+    if (this.state !== state) {
+      this.logger.info(`Zoom WebSocket state: ${this.state} -> ${state}`);
+      this.state = state;
+    }
+  }
+
+  /**
+   * Reset the reconnection backoff once Zoom has answered on the connection
+   */
+  private markHealthy(): void {
+    if (this.reconnectAttempts > 0) {
+      this.logger.info(
+        `Zoom WebSocket healthy after ${this.reconnectAttempts} reconnection attempts`
+      );
+      this.reconnectAttempts = 0;
+    }
+  }
+
   /**
-   * Schedule reconnection attempt
+   * Schedule reconnection attempt. Retries never stop: after a burst of failed
+   * attempts the service cools down for a while and then starts a new burst.
    */
   private scheduleReconnect(): void {
+    // A stopped service stays stopped until initialized again
+    if (this.state === 'stopped') {
+      return;
+    }
+
     // Clear any existing reconnect timer
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
     }
     
-    // Increment reconnection attempts
+    const { baseDelayMs, maxDelayMs, burstAttempts, cooldownMs } = config.zoom.reconnect;
     this.reconnectAttempts++;
+    this.totalReconnects++;
     
-    if (this.reconnectAttempts > this.MAX_RECONNECT_ATTEMPTS) {
-      logger.error(`Maximum reconnection attempts (${this.MAX_RECONNECT_ATTEMPTS}) reached. Giving up.`);
-      return;
+    let delay: number;
+    if (this.reconnectAttempts > burstAttempts) {
+      this.cooldowns++;
+      this.reconnectAttempts = 0;
+      this.setState('cooling_down');
+      delay = cooldownMs;
+      this.logger.error(
+        `${burstAttempts} reconnection attempts failed, cooling down for ${Math.round(cooldownMs / 1000)}s`,
+        {
+          lastError: this.lastError,
+        }
+      );
+    } else {
+      this.setState('backing_off');
+      // Calculate exponential backoff with jitter
+      delay =
+        Math.min(baseDelayMs * Math.pow(1.5, this.reconnectAttempts - 1), maxDelayMs) *
+        (0.9 + Math.random() * 0.2); // Add ±10% jitter
+      this.logger.info(
+        `Scheduling reconnection attempt ${this.reconnectAttempts} in ${Math.round(delay)}ms`
+      );
     }
     
-    // Calculate exponential backoff with jitter
-    const delay = Math.min(
-      this.RECONNECT_INTERVAL * Math.pow(1.5, this.reconnectAttempts - 1),
-      60000 // Max 60 seconds
-    ) * (0.9 + Math.random() * 0.2); // Add ±10% jitter
-    
-    logger.info(`Scheduling reconnection attempt ${this.reconnectAttempts} in ${Math.round(delay)}ms`);
-    
+    this.nextReconnectAt = new Date(Date.now() + delay);
     this.reconnectTimer = setTimeout(async () => {
-      logger.info(`Attempting to reconnect (attempt ${this.reconnectAttempts})`);
+      this.reconnectTimer = null;
+      this.nextReconnectAt = null;
+      this.logger.info(`Attempting to reconnect (attempt ${this.reconnectAttempts || 1})`);
       await this.initialize();
     }, delay);
   }
@@ -225,20 +408,38 @@ class ZoomWebSocketService {
   }
 
   /**
-   * Close the WebSocket connection
+   * Get the connection state and reconnection counters
+   */
+  getStatus(): ZoomConnectionStatus {
+    return {
+      subscription: this.subscription.name,
+      subscriptionId: this.subscription.subscriptionId,
+      state: this.state,
+      connected: this.isConnected(),
+      lastConnectedAt: this.lastConnectedAt?.toISOString(),
+      lastDisconnectedAt: this.lastDisconnectedAt?.toISOString(),
+      lastMessageAt: this.lastMessageAt?.toISOString(),
+      lastHeartbeatAt: this.lastHeartbeatAt?.toISOString(),
+      nextReconnectAt: this.nextReconnectAt?.toISOString(),
+      reconnectAttempts: this.reconnectAttempts,
+      totalReconnects: this.totalReconnects,
+      cooldowns: this.cooldowns,
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  /**
+   * Close the WebSocket connection and stop reconnecting
    */
   close(): void {
-    logger.info('Closing Zoom WebSocket connection');
+    this.logger.info('Closing Zoom WebSocket connection');
+    this.setState('stopped');
     this.cleanup();
     
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+    this.nextReconnectAt = null;
   }
 }
-
-// Create singleton instance
-const zoomWebSocketService = new ZoomWebSocketService();
-
-export default zoomWebSocketService;
\ No newline at end of file
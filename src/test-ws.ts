@@ -4,7 +4,7 @@
  */
 
 import dotenv from 'dotenv';
-import zoomWebSocketService from './services/zoomWebSocketService';
+import zoomConnectionPool from './services/zoomConnectionPool';
 import logger from './config/logger';
 import config from './config/env';
 
@@ -16,13 +16,10 @@ async function testWebSocketConnection() {
   try {
     logger.info('Starting WebSocket connection test');
     
-    // Verify required environment variables
-    const requiredEnvVars = [
-      'ZOOM_ACCOUNT_ID',
-      'ZOOM_CLIENT_ID',
-      'ZOOM_CLIENT_SECRET',
-      'ZOOM_SUBSCRIPTION_ID'
-    ];
+    // Verify required environment variables; a ZOOM_SUBSCRIPTIONS list replaces them
+    const requiredEnvVars = process.env.ZOOM_SUBSCRIPTIONS
+      ? []
+      : ['ZOOM_ACCOUNT_ID', 'ZOOM_CLIENT_ID', 'ZOOM_CLIENT_SECRET', 'ZOOM_SUBSCRIPTION_ID'];
     
     const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
     
@@ -33,21 +30,26 @@ async function testWebSocketConnection() {
     
     // Log configuration
     logger.info('Zoom WebSocket Configuration:');
-    logger.info(`Account ID: ${config.zoom.accountId}`);
-    logger.info(`Client ID: ${config.zoom.clientId}`);
-    logger.info(`Subscription ID: ${config.zoom.subscriptionId}`);
+    for (const subscription of config.zoom.subscriptions) {
+      logger.info(
+        `Subscription ${subscription.name}: ID ${subscription.subscriptionId}, account ${subscription.accountId}, client ${subscription.clientId}`
+      );
+    }
     logger.info(`WebSocket URL: ${config.zoom.wsUrl}`);
     
     // Initialize WebSocket connection
-    await zoomWebSocketService.initialize();
+    await zoomConnectionPool.initialize();
     
     // Wait for connection to establish (if it will)
     logger.info('Waiting for connection to establish...');
     await new Promise(resolve => setTimeout(resolve, 5000));
     
     // Check connection status
-    const isConnected = zoomWebSocketService.isConnected();
-    logger.info(`WebSocket connection status: ${isConnected ? 'CONNECTED' : 'NOT CONNECTED'}`);
+    for (const status of zoomConnectionPool.getStatus()) {
+      logger.info(
+        `WebSocket connection status (${status.subscription}): ${status.connected ? 'CONNECTED' : 'NOT CONNECTED'}`
+      );
+    }
     
     // Keep script running to observe connection behavior
     logger.info('Keeping connection open for 30 seconds to observe behavior...');
@@ -55,7 +57,7 @@ async function testWebSocketConnection() {
     
     // Close connection after test
     logger.info('Test complete, closing connection');
-    zoomWebSocketService.close();
+    zoomConnectionPool.close();
     
     logger.info('WebSocket test completed');
   } catch (error) {
@@ -1,3 +1,16 @@
+import { z } from 'zod';
+import {
+  endpointUrlValidationEventSchema,
+  meetingLifecycleEventSchema,
+  recordingCompletedEventSchema,
+  recordingRemovedEventSchema,
+  recordingTranscriptCompletedEventSchema,
+  zoomEventEnvelopeSchema,
+  zoomMeetingInstanceSchema,
+  zoomMeetingSchema,
+  zoomRecordingFileSchema,
+} from '../schemas/zoomEventSchemas';
+
 // Core application types
 export interface AppConfig {
     port: number | string;
@@ -8,10 +21,32 @@ export interface AppConfig {
   }
   
   export interface ZoomConfig {
-    verificationToken: string;
-    secretToken: string;
+    verificationTokens: ZoomWebhookSecret[];
+    secretTokens: ZoomWebhookSecret[];
   }
-  
+
+// A webhook secret or verification token; several are active while one is rotated out
+export interface ZoomWebhookSecret {
+  // Logged when the secret matches, never the token itself
+  name: string;
+  token: string;
+  // ISO date after which the secret is no longer accepted
+  notAfter?: string;
+}
+
+// Server-to-Server OAuth app credentials
+export interface ZoomCredentials {
+  accountId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+// A Zoom event subscription consumed over its own WebSocket connection
+export interface ZoomSubscriptionConfig extends ZoomCredentials {
+  name: string;
+  subscriptionId: string;
+}
+
   export interface OpenAIConfig {
     apiKey: string;
   }
@@ -22,34 +57,144 @@ export interface AppConfig {
     clientSecret: string;
   }
   
-  // Zoom related types
-  export interface ZoomWebhookEvent {
-    event: string;
-    event_ts: number;
-    payload: {
-      object?: ZoomMeeting;
-      plainToken?: string;
-      [key: string]: any;
-    };
-  }
-  
-  export interface ZoomMeeting {
-    id: string;
-    topic: string;
-    host_email?: string;
-    recording_files?: ZoomRecordingFile[];
-    download_token?: string;
-    [key: string]: any;
-  }
-  
-  export interface ZoomRecordingFile {
-    id: string;
-    file_type: string;
-    recording_type?: string;
-    download_url: string;
-    [key: string]: any;
-  }
-  
+// Zoom related types, derived from the runtime schemas in schemas/zoomEventSchemas
+// Fields set locally on ingestion, never by Zoom
+export interface ZoomEventContext {
+  // Name of the subscription the event arrived on
+  subscription?: string;
+  // Transport the event arrived on and when
+  source?: ZoomEventSource;
+  receivedAt?: string;
+  // Set on events fed back from the event archive
+  replay?: ReplayMarker;
+}
+
+export type ZoomWebhookEvent = z.infer<typeof zoomEventEnvelopeSchema> & ZoomEventContext;
+
+// Transports Zoom events are received on
+export type ZoomEventSource = 'websocket' | 'webhook';
+
+// A Zoom event from either transport, normalized by the ingestion layer
+export type ZoomEvent = ZoomWebhookEvent & {
+  source: ZoomEventSource;
+  receivedAt: string;
+};
+
+// Zoom events with a known payload, discriminated by `event`
+export type RecordingCompletedEvent = z.infer<typeof recordingCompletedEventSchema> &
+  ZoomEventContext;
+
+export type RecordingTranscriptCompletedEvent = z.infer<
+  typeof recordingTranscriptCompletedEventSchema
+> &
+  ZoomEventContext;
+
+export type RecordingRemovedEvent = z.infer<typeof recordingRemovedEventSchema> & ZoomEventContext;
+
+export type MeetingLifecycleEvent = z.infer<typeof meetingLifecycleEventSchema> & ZoomEventContext;
+
+export type EndpointUrlValidationEvent = z.infer<typeof endpointUrlValidationEventSchema> &
+  ZoomEventContext;
+
+// Recording events a job can be created from
+export type RecordingEvent = RecordingCompletedEvent | RecordingTranscriptCompletedEvent;
+
+export type KnownZoomEvent =
+  | RecordingCompletedEvent
+  | RecordingTranscriptCompletedEvent
+  | RecordingRemovedEvent
+  | MeetingLifecycleEvent
+  | EndpointUrlValidationEvent;
+
+export type ZoomEventType = KnownZoomEvent['event'];
+
+export type ZoomMeetingInstance = z.infer<typeof zoomMeetingInstanceSchema>;
+
+export type ZoomMeeting = z.infer<typeof zoomMeetingSchema>;
+
+export type ZoomRecordingFile = z.infer<typeof zoomRecordingFileSchema>;
+
+// Meeting details recorded from meeting.ended events
+export interface MeetingRecord {
+  // Meeting instance UUID; a recurring meeting ID has one instance per occurrence
+  id: string;
+  meetingId: string;
+  topic: string;
+  hostId?: string;
+  startTime?: string;
+  endTime?: string;
+  // Minutes, as scheduled or reported by Zoom
+  duration?: number;
+  timezone?: string;
+  subscription?: string;
+  endedAt: string;
+}
+
+// Event archive and replay types
+// One line of the NDJSON event archive
+export interface ArchivedEvent {
+  receivedAt: string;
+  source: ZoomEventSource;
+  subscription?: string;
+  event: ZoomWebhookEvent;
+}
+
+// An event that failed schema validation, with what was wrong at which path
+export interface QuarantinedEvent extends ArchivedEvent {
+  issues: string[];
+}
+
+export interface ReplayMarker {
+  replayId: string;
+  dryRun?: boolean;
+  skipClickUp?: boolean;
+}
+
+// 'original' keeps the gaps between events, 'fast' publishes them back to back
+export type ReplayTiming = 'original' | 'fast';
+
+export type ReplayStatus = 'running' | 'completed' | 'cancelled';
+
+export interface ReplayRun {
+  id: string;
+  status: ReplayStatus;
+  timing: ReplayTiming;
+  // Playback speed multiplier for original timing
+  speed: number;
+  eventTypes?: string[];
+  dryRun?: boolean;
+  skipClickUp?: boolean;
+  total: number;
+  published: number;
+  startedAt: string;
+  completedAt?: string;
+}
+
+// Zoom WebSocket connection types
+export type ZoomConnectionState =
+  | 'connecting'
+  | 'open'
+  | 'backing_off'
+  | 'cooling_down'
+  | 'stopped';
+
+export interface ZoomConnectionStatus {
+  subscription: string;
+  subscriptionId: string;
+  state: ZoomConnectionState;
+  connected: boolean;
+  lastConnectedAt?: string;
+  lastDisconnectedAt?: string;
+  lastMessageAt?: string;
+  lastHeartbeatAt?: string;
+  nextReconnectAt?: string;
+  // Failed attempts in the current burst; reset once a connection is healthy
+  reconnectAttempts: number;
+  totalReconnects: number;
+  cooldowns: number;
+  lastError?: string;
+}
+
   // Audio processing types
   export interface AudioProcessingResult {
     originalPath: string;
@@ -58,11 +203,14 @@ export interface AppConfig {
     duration?: number;
   }
   
-  // Transcription types
+// Transcription types
+export type TranscriptionProvider = 'openai' | 'assemblyai' | 'zoom';
+
   export interface TranscriptionResult {
     text: string;
     wordCount: number;
     processingTime: number;
+    provider: TranscriptionProvider;
   }
   
   // Information extraction types
@@ -74,6 +222,176 @@ export interface AppConfig {
     confidence?: number;
   }
   
+// Recording pipeline types
+export type PipelineStageName =
+  | 'download'
+  | 'convert'
+  | 'transcribe'
+  | 'extract'
+  | 'update_clickup';
+
+export interface PipelineInput {
+  meetingId?: string;
+  topic?: string;
+  recordingFile?: ZoomRecordingFile;
+  // Zoom's VTT transcript of the recording, once Zoom has produced it
+  transcriptFile?: ZoomRecordingFile;
+  sourceUrl?: string;
+  downloadToken?: string;
+  // Subscription whose credentials are used for Zoom API calls
+  subscription?: string;
+  transcriptionProvider?: TranscriptionProvider;
+  // Language code of the audio; detected when not set
+  language?: string;
+  skipClickUp?: boolean;
+  dryRun?: boolean;
+  requireReview?: boolean;
+  jobId?: string;
+}
+
+// Intermediate outputs, persisted by callers that need to resume a run
+export interface PipelineState {
+  downloadedFilePath?: string;
+  mp3FilePath?: string;
+  transcript?: string;
+  transcriptionProvider?: TranscriptionProvider;
+  extractedInfo?: ExtractedInfo[];
+  clickUpUpdatedIndexes?: number[];
+  clickUpUpdates?: ClickUpUpdateResult[];
+  reviewItemIds?: string[];
+}
+
+export interface PipelineStageReport {
+  name: PipelineStageName;
+  status: 'completed' | 'skipped' | 'failed';
+  startedAt?: string;
+  durationMs: number;
+  output?: Record<string, any>;
+  error?: string;
+}
+
+export interface PipelineRunReport {
+  success: boolean;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  stages: PipelineStageReport[];
+  extractedInfo: ExtractedInfo[];
+  clickUpUpdates: ClickUpUpdateResult[];
+  failedStage?: PipelineStageName;
+  error?: string;
+  // Error and its causes, outermost first
+  errorChain?: string[];
+  // Whether the failure is likely to clear up on retry
+  transient?: boolean;
+  // Stopped before the remaining stages because the job was cancelled
+  cancelled?: boolean;
+}
+
+// Recording job types
+export type JobStatus =
+  | 'queued'
+  | 'downloading'
+  | 'converting'
+  | 'transcribing'
+  | 'extracting'
+  | 'updating_clickup'
+  | 'awaiting_transcript'
+  | 'awaiting_review'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export type JobSource = 'webhook' | 'websocket' | 'manual' | 'upload' | 'replay';
+
+// Per-job overrides, set when a meeting is reprocessed manually or a file is uploaded
+export interface JobOptions {
+  skipClickUp?: boolean;
+  dryRun?: boolean;
+  requireReview?: boolean;
+  transcriptionProvider?: TranscriptionProvider;
+  language?: string;
+  reuseTranscript?: boolean;
+}
+
+export interface RecordingJob {
+  id: string;
+  source: JobSource;
+  status: JobStatus;
+  meetingId: string;
+  meetingUuid?: string;
+  topic: string;
+  // Zoom event subscription the recording event arrived on
+  subscription?: string;
+  recordingFile?: ZoomRecordingFile;
+  transcriptFile?: ZoomRecordingFile;
+  // Zoom event that created the job; not set for uploaded files
+  event?: RecordingEvent;
+  // Original name of an uploaded file
+  fileName?: string;
+  options?: JobOptions;
+  checkpoints: PipelineState;
+  report?: PipelineRunReport;
+  attempts: number;
+  error?: string;
+  // When a job waiting to be retried after a transient failure, or waiting for
+  // Zoom's transcript, runs again
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  // Why the job was cancelled, such as the recording being deleted in Zoom
+  cancelReason?: string;
+}
+
+// Dead-letter types
+export type DeadLetterStatus = 'pending' | 'retried';
+
+// A job that failed for good, kept with everything needed to retry it
+export interface DeadLetter {
+  id: string;
+  jobId: string;
+  source: JobSource;
+  status: DeadLetterStatus;
+  meetingId: string;
+  topic: string;
+  // Original Zoom event payload
+  event?: RecordingEvent;
+  options?: JobOptions;
+  failedStage?: PipelineStageName;
+  error: string;
+  errorChain: string[];
+  transient: boolean;
+  attempts: number;
+  retryCount: number;
+  createdAt: string;
+  updatedAt: string;
+  retriedAt?: string;
+}
+
+// Review queue types
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface ReviewItem {
+  id: string;
+  jobId?: string;
+  meetingId?: string;
+  topic?: string;
+  status: ReviewStatus;
+  // Held by a dry run: approving it only plans the ClickUp changes
+  dryRun?: boolean;
+  // Current values, possibly edited by a reviewer
+  info: ExtractedInfo;
+  // Values as extracted, kept for auditing edits
+  original: ExtractedInfo;
+  createdAt: string;
+  expiresAt: string;
+  reviewedAt?: string;
+  reviewer?: string;
+  reason?: string;
+  clickUpUpdate?: ClickUpUpdateResult;
+}
+
   // Error types
   export interface ApiError extends Error {
     response?: {
@@ -82,6 +400,7 @@ export interface AppConfig {
     };
     status?: number;
     code?: string;
+    cause?: unknown;
   }
   
   // ClickUp related types
@@ -127,9 +446,79 @@ export interface AppConfig {
     items: ChecklistItem[];
   }
   
+// A single write made to ClickUp while applying an extraction
+export interface ClickUpAction {
+  type: 'create_list' | 'create_task' | 'add_comment' | 'create_checklist';
+  spaceId?: string;
+  listId?: string;
+  taskId?: string;
+  name?: string;
+  text?: string;
+  items?: ChecklistItem[];
+  description: string;
+  // Planned only, not sent to ClickUp
+  dryRun?: boolean;
+}
+
+export interface ClickUpWriteOptions {
+  // Defaults to the global CLICKUP_DRY_RUN setting
+  dryRun?: boolean;
+}
+
+export interface ClickUpTaskUpdate {
+  // Missing when a dry run plans to create the task
+  taskId?: string;
+  actions: ClickUpAction[];
+  dryRun?: boolean;
+}
+
+export interface ClickUpUpdateResult {
+  character: string;
+  task: string;
+  status: 'success' | 'error';
+  taskId?: string;
+  actions?: ClickUpAction[];
+  dryRun?: boolean;
+  error?: string;
+}
+
+// How much of a transcript may appear in the logs
+export type LogPrivacyLevel = 'full' | 'truncate' | 'hash';
+
+// API authentication types
+export type ApiScope = 'read-status' | 'operate-connection' | 'run-pipeline' | 'write-clickup';
+
+// An API key; only the SHA-256 hash of the key is stored
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, to recognize it in listings
+  prefix: string;
+  hash: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+// One call to a protected route
+export interface AuditEntry {
+  timestamp: string;
+  keyId?: string;
+  keyName?: string;
+  method: string;
+  path: string;
+  scopes: ApiScope[];
+  outcome: 'allowed' | 'unauthenticated' | 'forbidden' | 'invalid';
+  statusCode?: number;
+  ip?: string;
+}
+
   export interface ApiResponse<T> {
     status: 'success' | 'error';
     data?: T;
     message?: string;
     error?: string;
-  }
\ No newline at end of file
+  }
+// Request whose raw JSON body was kept for signature verification
+export type RawBodyRequest = import('express').Request & { rawBody?: Buffer };
@@ -3,6 +3,20 @@ declare module 'ws' {
     // Define Data type for message events
     namespace WebSocket {
       type Data = string | Buffer | ArrayBuffer | Buffer[];
+
+      class Server {
+        clients: Set<import('ws')>;
+
+        constructor(options: { server?: any; port?: number; path?: string; noServer?: boolean });
+
+        on(
+          event: 'connection',
+          cb: (socket: import('ws'), request: import('http').IncomingMessage) => void
+        ): this;
+        on(event: string, cb: (...args: any[]) => void): this;
+
+        close(cb?: (err?: Error) => void): void;
+      }
     }
   
     class WebSocket {
@@ -25,6 +39,7 @@ declare module 'ws' {
       send(data: any, cb?: (err?: Error) => void): void;
       ping(data?: any, mask?: boolean, cb?: (err?: Error) => void): void;
       close(code?: number, reason?: string): void;
+      terminate(): void;
       
       addEventListener(type: string, listener: EventListenerOrEventListenerObject): void;
     }
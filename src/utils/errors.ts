@@ -0,0 +1,76 @@
+import { ApiError } from '../types';
+
+// Network error codes that usually clear up on their own
+const TRANSIENT_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+// Wrapped errors often only keep the original message, so match that too
+const TRANSIENT_MESSAGE =
+  /timed? ?out|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|fetch failed|rate limit|too many requests|status code (408|429|5\d\d)|service unavailable|bad gateway/i;
+
+/**
+ * Create an error that keeps the error it wraps, along with its HTTP status
+ * @param message - Message of the new error
+ * @param cause - The underlying error
+ */
+export const wrapError = (message: string, cause: unknown): ApiError => {
+  const error: ApiError = new Error(message);
+  const inner = cause as ApiError;
+  error.cause = cause;
+  error.status = inner?.status ?? inner?.response?.status;
+  return error;
+};
+
+/**
+ * List an error and the errors that caused it, outermost first
+ * @param err - The error
+ */
+const unwrap = (err: unknown): ApiError[] => {
+  const errors: ApiError[] = [];
+  let current = err as ApiError | undefined;
+
+  while (current && errors.length < 10 && !errors.includes(current)) {
+    errors.push(current);
+    current = current.cause as ApiError | undefined;
+  }
+  return errors;
+};
+
+/**
+ * Describe an error and its causes, one entry per error
+ * @param err - The error
+ * @returns Messages with their HTTP status or error code, outermost first
+ */
+export const getErrorChain = (err: unknown): string[] => {
+  return unwrap(err).map((error) => {
+    const status = error.status ?? error.response?.status;
+    const details = [status && `status ${status}`, error.code].filter(Boolean).join(', ');
+    const message = error.message || String(error);
+    return details ? `${message} (${details})` : message;
+  });
+};
+
+/**
+ * Whether an error is likely to go away when the operation is retried:
+ * timeouts, dropped connections, rate limits and server errors
+ * @param err - The error
+ */
+export const isTransientError = (err: unknown): boolean => {
+  return unwrap(err).some((error) => {
+    const status = error.status ?? error.response?.status;
+    if (status && (status === 408 || status === 429 || status >= 500)) {
+      return true;
+    }
+    if (error.code && TRANSIENT_CODES.includes(error.code)) {
+      return true;
+    }
+    return TRANSIENT_MESSAGE.test(error.message || '');
+  });
+};
@@ -1,3 +1,5 @@
+import { ApiError } from '../types';
+
 /**
  * Simple sleep function
  * @param ms - Time to sleep in milliseconds
@@ -11,4 +13,59 @@ export const sleep = (ms: number): Promise<void> => {
    */
   export const getTestAudioTranscription = (): string => {
     return "Hola equipo, vamos a revisar algunos cambios para nuestros personajes. Para el Project: Prj, necesitamos actualizar al Character: Jerry con una nueva Task: Blocking para la cabeza y el cuerpo. El movimiento no es fluido y necesitamos mejorar las expresiones faciales. También para Character: Tom necesitamos revisar la Task: Animation de las patas traseras. No olvidemos actualizar la documentación en ClickUp con estos cambios.";
-  };
\ No newline at end of file
+  };
+
+const BOOLEAN_VALUES = new Map<unknown, boolean>([
+  [true, true],
+  ['true', true],
+  ['1', true],
+  [false, false],
+  ['false', false],
+  ['0', false],
+]);
+
+const badRequest = (message: string): ApiError => {
+  const error: ApiError = new Error(message);
+  error.status = 400;
+  return error;
+};
+
+/**
+ * Parse an optional boolean from a query string or request body value
+ * @param value - Raw value (true/false, "true"/"false", "1"/"0" or undefined)
+ * @param name - Parameter name for the error message
+ * @returns The boolean, or undefined when not provided
+ * @throws ApiError with status 400 for any other value
+ */
+export const parseBooleanParam = (value: unknown, name = 'boolean'): boolean | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = BOOLEAN_VALUES.get(value);
+  if (parsed === undefined) {
+    throw badRequest(`Invalid ${name} value "${value}". Use true or false`);
+  }
+  return parsed;
+};
+
+/**
+ * Read a boolean request parameter from the query string or the body, so
+ * the handlers and the scope checks read it the same way
+ * @param req - Request with the parsed query and body
+ * @param name - Parameter name
+ * @throws ApiError with status 400 for invalid values, or when the query and the body disagree
+ */
+export const getBooleanParam = (
+  req: { query: unknown; body?: unknown },
+  name: string
+): boolean | undefined => {
+  const values = [req.query, req.body]
+    .filter((source): source is Record<string, unknown> => !!source && typeof source === 'object')
+    .map((source) => parseBooleanParam(source[name], name))
+    .filter((value): value is boolean => value !== undefined);
+
+  if (new Set(values).size > 1) {
+    throw badRequest(`Conflicting ${name} values in the query and the body`);
+  }
+  return values[0];
+};
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+
+export interface JsonFileStoreOptions {
+  // Wait this long after a change before writing, so bursts of changes are written once
+  saveDelayMs?: number;
+}
+
+/**
+ * Small persistent key/value store backed by a single JSON file.
+ * Records are kept in memory and the whole file is rewritten atomically
+ * (write to a temp file, then rename) on every change, or once per burst
+ * of changes when a save delay is set.
+ */
+export class JsonFileStore<T extends { id: string }> {
+  private records = new Map<string, T>();
+  private readonly filePath: string;
+  private readonly saveDelayMs: number;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string, options: JsonFileStoreOptions = {}) {
+    this.filePath = filePath;
+    this.saveDelayMs = options.saveDelayMs || 0;
+    this.load();
+
+    if (this.saveDelayMs > 0) {
+      // Changes still waiting for their write are written on the way out
+      process.on('exit', () => this.flush());
+    }
+  }
+
+  /**
+   * Load records from disk, starting empty if the file is missing or unreadable
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      const items = JSON.parse(raw) as T[];
+
+      for (const item of items) {
+        this.records.set(item.id, item);
+      }
+
+      logger.info(`Loaded ${this.records.size} records from ${this.filePath}`);
+    } catch (error) {
+      logger.error(`Failed to load store ${this.filePath}, starting empty`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Persist all records to disk
+   */
+  private save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.records.values()), null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  /**
+   * Persist now, or once the save delay has passed since the first unsaved change
+   */
+  private scheduleSave(): void {
+    if (this.saveDelayMs <= 0) {
+      this.save();
+      return;
+    }
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.flush(), this.saveDelayMs);
+      this.saveTimer.unref();
+    }
+  }
+
+  /**
+   * Write changes that are waiting for the save delay
+   */
+  flush(): void {
+    if (!this.saveTimer) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.save();
+  }
+
+  /**
+   * Re-read the file, picking up changes written by another process
+   */
+  reload(): void {
+    this.records.clear();
+    this.load();
+  }
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  list(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  upsert(record: T): T {
+    this.records.set(record.id, record);
+    this.scheduleSave();
+    return record;
+  }
+
+  delete(id: string): boolean {
+    return this.deleteMany([id]) > 0;
+  }
+
+  /**
+   * Delete several records with a single write
+   * @returns Number of records that existed
+   */
+  deleteMany(ids: string[]): number {
+    const deleted = ids.filter((id) => this.records.delete(id)).length;
+    if (deleted > 0) {
+      this.scheduleSave();
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import config from '../config/env';
+
+const REDACTED = '[REDACTED]';
+
+// Nested metadata deeper than this is not logged
+const MAX_DEPTH = 8;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const redactKeys = new Set(config.logging.redactKeys.map((key) => key.toLowerCase()));
+const keyAlternatives = config.logging.redactKeys.map(escapeRegExp).join('|');
+
+const stringRules: { pattern: RegExp; replacement: string }[] = [
+  // "key": "value" in logged JSON, also when escaped inside a JSON string as in WebSocket messages
+  {
+    pattern: new RegExp(
+      `(\\\\?"(?:${keyAlternatives})\\\\?"\\s*:\\s*)(\\\\?")[^"\\\\]*\\\\?"`,
+      'gi'
+    ),
+    replacement: `$1$2${REDACTED}$2`,
+  },
+  // key=value in URLs, such as ?access_token= on download URLs
+  {
+    pattern: new RegExp(`([?&](?:${keyAlternatives})=)[^&#\\s"']+`, 'gi'),
+    replacement: `$1${REDACTED}`,
+  },
+  ...config.logging.redactPatterns.map((pattern) => ({
+    pattern: new RegExp(pattern, 'g'),
+    replacement: REDACTED,
+  })),
+];
+
+/**
+ * Redact secrets and personal data from a string
+ * @param value - Text to redact
+ */
+export const redactString = (value: string): string =>
+  stringRules.reduce((text, rule) => text.replace(rule.pattern, rule.replacement), value);
+
+/**
+ * Copy a logged value with the values of sensitive keys and every sensitive
+ * substring redacted. The original is left untouched.
+ * @param value - Log message or metadata
+ */
+export const redactValue = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  // Objects that contain themselves are only logged once
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Omitted]';
+  }
+
+  seen.add(value);
+  let copy: unknown;
+  // Axios errors and similar objects describe themselves for logging
+  const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+  if (typeof toJSON === 'function') {
+    copy = redactValue(toJSON.call(value), depth + 1, seen);
+  } else if (Array.isArray(value)) {
+    copy = value.map((item) => redactValue(item, depth + 1, seen));
+  } else {
+    copy = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactKeys.has(key.toLowerCase()) ? REDACTED : redactValue(item, depth + 1, seen),
+      ])
+    );
+  }
+  seen.delete(value);
+  return copy;
+};
+
+/**
+ * Describe transcript text for the logs according to the log privacy level:
+ * a snippet, a shortened snippet, or only a hash and the length
+ * @param text - Transcript or other personal text
+ * @param length - Characters to show at the 'full' level
+ */
+export const textPreview = (text: string, length = 200): string => {
+  switch (config.logging.privacyLevel) {
+    case 'full':
+      return `${text.substring(0, length)}${text.length > length ? '...' : ''}`;
+    case 'truncate': {
+      const shown = Math.min(length, config.logging.snippetLength);
+      return `${text.substring(0, shown)}${text.length > shown ? '...' : ''}`;
+    }
+    default: {
+      const hash = crypto.createHash('sha256').update(text).digest('hex').substring(0, 12);
+      return `[sha256:${hash}, ${text.length} chars]`;
+    }
+  }
+};
@@ -0,0 +1,92 @@
+export type TranscriptFormat = 'text' | 'vtt' | 'srt';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['text', 'vtt', 'srt'];
+
+// "00:01:02.345 --> 00:01:04.000" (VTT) or "00:01:02,345 --> 00:01:04,000" (SRT), with optional cue settings
+const TIMING_LINE = /^(\d{1,2}:)?\d{2}:\d{2}[.,]\d{3}\s+-->\s+(\d{1,2}:)?\d{2}:\d{2}[.,]\d{3}/;
+
+/**
+ * Guess the format of a transcript from its content
+ * @param content - Raw transcript
+ */
+export const detectTranscriptFormat = (content: string): TranscriptFormat => {
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (trimmed.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (trimmed.split(/\r?\n/).some((line) => TIMING_LINE.test(line.trim()))) {
+    return 'srt';
+  }
+  return 'text';
+};
+
+/**
+ * Turn a VTT cue payload into plain text, keeping the speaker of `<v Name>` voice tags
+ * @param text - Cue text
+ */
+const stripCueMarkup = (text: string): string => {
+  return text
+    .replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/g, '$1: ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+};
+
+/**
+ * Extract the spoken text of a WebVTT or SRT file, one cue per line
+ * @param content - Raw subtitle file
+ */
+const parseCues = (content: string): string => {
+  const lines: string[] = [];
+  let inCue = false;
+  let skipBlock = false;
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      inCue = false;
+      skipBlock = false;
+      continue;
+    }
+    if (skipBlock) continue;
+
+    if (TIMING_LINE.test(line)) {
+      inCue = true;
+      continue;
+    }
+    if (!inCue) {
+      // Header, comment, style or region blocks and cue identifiers carry no speech
+      if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(line)) {
+        skipBlock = true;
+      }
+      continue;
+    }
+
+    const text = stripCueMarkup(line);
+    if (text) {
+      lines.push(text);
+    }
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Normalize a transcript to the plain text the extractor expects
+ * @param content - Raw text, WebVTT or SRT
+ * @param format - Format of the content; detected when not given
+ * @returns Plain transcript text
+ */
+export const parseTranscript = (content: string, format?: TranscriptFormat): string => {
+  const resolved = format || detectTranscriptFormat(content);
+
+  if (resolved === 'text') {
+    return content.replace(/^\uFEFF/, '').trim();
+  }
+  return parseCues(content);
+};
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { RawBodyRequest, ZoomWebhookSecret } from '../types';
+
+/**
+ * Secrets that have not passed their not-after date
+ * @param secrets - Configured secrets, preferred first
+ * @param now - Time to check against
+ */
+export const getActiveSecrets = (
+  secrets: ZoomWebhookSecret[],
+  now: Date = new Date()
+): ZoomWebhookSecret[] => {
+  return secrets.filter((secret) => !secret.notAfter || new Date(secret.notAfter) > now);
+};
+
+/**
+ * Compare two strings in constant time
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Find the secret a Zoom signature (`v0=<hex HMAC>`) was made with
+ * @param secrets - Candidate secrets; every one is checked
+ * @param message - Signed message, `v0:<timestamp>:<raw body>`
+ * @param signature - Value of the x-zm-signature header
+ * @returns The matching secret, if any
+ */
+export const findSigningSecret = (
+  secrets: ZoomWebhookSecret[],
+  message: Buffer,
+  signature: string
+): ZoomWebhookSecret | undefined => {
+  let match: ZoomWebhookSecret | undefined;
+
+  // Check all secrets so the time taken does not reveal which one matched
+  for (const secret of secrets) {
+    const expected = `v0=${crypto.createHmac('sha256', secret.token).update(message).digest('hex')}`;
+    if (safeEqual(signature, expected) && !match) {
+      match = secret;
+    }
+  }
+  return match;
+};
+
+/**
+ * Build the signed message of a webhook request
+ * @returns The message, or null when the request has no timestamp or raw body
+ */
+export const getSignedMessage = (req: RawBodyRequest): Buffer | null => {
+  const timestamp = req.headers['x-zm-request-timestamp'];
+  if (!timestamp || !req.rawBody) {
+    return null;
+  }
+  return Buffer.concat([Buffer.from(`v0:${timestamp}:`), req.rawBody]);
+};
+
+/**
+ * Answer a Zoom URL validation request. A signed request is answered with the
+ * verification token that signed it; otherwise the first active token is used.
+ * @param req - Request with an endpoint.url_validation body
+ * @param tokens - Configured verification tokens
+ * @returns The response body and the name of the token used
+ */
+export const createValidationResponse = (
+  req: RawBodyRequest,
+  tokens: ZoomWebhookSecret[]
+): { plainToken: string; encryptedToken: string; tokenName: string } => {
+  const active = getActiveSecrets(tokens);
+  if (active.length === 0) {
+    throw new Error('No active Zoom verification token configured');
+  }
+
+  const signature = req.headers['x-zm-signature'] as string | undefined;
+  const message = getSignedMessage(req);
+  const token =
+    (signature && message && findSigningSecret(active, message, signature)) || active[0];
+
+  const plainToken = req.body.payload.plainToken;
+  const encryptedToken = crypto.createHmac('sha256', token.token).update(plainToken).digest('hex');
+  return { plainToken, encryptedToken, tokenName: token.name };
+};
@@ -24,8 +24,7 @@ console.log('=======================================\n');
 const endpoints = [
   '/zoom-validate',
   '/webhook/zoom',
-  '/webhook/zoom/validate',
-  '/webhook/zoom/direct'
+  '/webhook/zoom/validate'
 ];
 
 // Test data